@@ -0,0 +1,58 @@
+/**
+ * Helpers for automerge-repo document IDs and `automerge:` URLs
+ */
+
+import {
+  type DocumentId,
+  generateAutomergeUrl,
+  isValidAutomergeUrl,
+  isValidDocumentId,
+  parseAutomergeUrl,
+  stringifyAutomergeUrl,
+} from "@automerge/automerge-repo";
+import { InvalidOptionError } from "./errors.ts";
+
+export interface ParsedDocumentUrl {
+  /** The bs58check-encoded document ID */
+  documentId: string;
+  /** The normalized `automerge:` URL, without heads */
+  url: string;
+  /** The hex heads of the version the URL points to, if it has any */
+  heads?: string[];
+}
+
+/**
+ * Validate and parse an `automerge:` URL
+ * @param url - The URL, e.g. `automerge:2j9knpCseyhnK8izDmLpGP5WMdZQ`
+ * @returns The document ID, normalized URL and optional heads
+ */
+export function parseDocumentUrl(url: string): ParsedDocumentUrl {
+  if (!isValidAutomergeUrl(url)) {
+    throw new InvalidOptionError(`Invalid automerge URL: ${url}`);
+  }
+  const { documentId, hexHeads } = parseAutomergeUrl(url);
+  return {
+    documentId,
+    url: stringifyAutomergeUrl({ documentId }),
+    ...(hexHeads ? { heads: hexHeads } : {}),
+  };
+}
+
+/**
+ * Resolve a bare document ID or an `automerge:` URL to a document ID, or
+ * generate a new one
+ * @param idOrUrl - The document ID or URL (a new ID is generated if omitted)
+ * @returns The document ID
+ */
+export function resolveDocumentId(idOrUrl?: string): DocumentId {
+  if (idOrUrl === undefined) {
+    return parseAutomergeUrl(generateAutomergeUrl()).documentId;
+  }
+  if (idOrUrl.startsWith("automerge:")) {
+    return parseDocumentUrl(idOrUrl).documentId as DocumentId;
+  }
+  if (!isValidDocumentId(idOrUrl)) {
+    throw new InvalidOptionError(`Invalid document ID: ${idOrUrl}`);
+  }
+  return idOrUrl;
+}
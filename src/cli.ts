@@ -7,16 +7,94 @@
 import {
   automergeToJson,
   type ConversionOptions,
-  jsonToAutomerge,
+  jsonToRepoCompatible,
+  loadDocument,
+  type ReadOptions,
   testRepoCompatibility,
+  updateAutomergeFromJson,
 } from "./jsonAutomergeConverter.ts";
+import { stringifyAutomergeUrl } from "@automerge/automerge-repo";
+import { resolveDocumentId } from "./automergeUrl.ts";
+import { type ConflictMode, findConflicts } from "./conflicts.ts";
+import { hashAutomergeBinary } from "./deterministic.ts";
+import {
+  accessFile,
+  describeError,
+  type ErrorCode,
+  InvalidAutomergeBinaryError,
+  InvalidOptionError,
+} from "./errors.ts";
+import { type ChangeInfo, getHistory } from "./history.ts";
+import { type BinaryInspection, inspectAutomergeBinary } from "./inspect.ts";
+import {
+  appendJsonToAutomergeFile,
+  compactAutomergeFile,
+  writeFileAtomically,
+} from "./incremental.ts";
+import {
+  applyJsonPatch,
+  diffAsJsonPatch,
+  type JsonPatchOperation,
+} from "./jsonPatch.ts";
+import {
+  attachComments,
+  detachComments,
+  type InputFormat,
+  parseJsonText,
+  stringifyJsonc,
+} from "./jsonc.ts";
+import { mergeAutomerge } from "./merge.ts";
+import { parseLosslessJson, stringifyLosslessJson } from "./numbers.ts";
+import { exportToRepoStorage, importFromRepoStorage } from "./repoStorage.ts";
+import { resolveConflict } from "./resolve.ts";
+import type { JsonSchema } from "./schema.ts";
+import { serveDocuments } from "./serve.ts";
+import { createSyncOffer, receiveSyncMessage } from "./sync.ts";
+import { startSyncServer } from "./syncServer.ts";
+import { watchJsonFile } from "./watch.ts";
 
 interface CliOptions {
   input?: string;
+  inputs?: string[];
   output?: string;
   actor?: string;
   validate?: boolean;
   test?: boolean;
+  base?: string;
+  idField?: string;
+  typeMap?: string;
+  schema?: string;
+  numbers?: string;
+  extended?: boolean;
+  ops?: boolean;
+  format?: string;
+  at?: string;
+  before?: string;
+  from?: string;
+  to?: string;
+  withMeta?: boolean;
+  conflicts?: ConflictMode;
+  path?: string;
+  pick?: string;
+  all?: boolean;
+  doc?: string;
+  syncState?: string;
+  patch?: string;
+  documentId?: string;
+  printUrl?: boolean;
+  deterministic?: boolean;
+  seed?: string;
+  hash?: boolean;
+  message?: string;
+  time?: string;
+  errorFormat?: string;
+  inputFormat?: string;
+  keepComments?: boolean;
+  dir?: string;
+  port?: string;
+  host?: string;
+  allowOrigins?: string[];
+  jsonMirrors?: boolean;
   help?: boolean;
 }
 
@@ -29,15 +107,112 @@ USAGE:
 COMMANDS:
   json2bin    Convert JSON (from stdin or file) to Automerge binary
   bin2json    Convert Automerge binary file to JSON (to stdout or file)
+  merge       Merge copies of the same document given with repeated -i
+  history     List the changes of an Automerge binary (file or stdin)
+  inspect     Report the chunks and contents of an Automerge binary, or why it
+              cannot be read
+  changes     Print the changes between two versions as JSON Patch operations
+  patch       Apply a JSON Patch (RFC 6902) to an Automerge file as one change
+  resolve     Settle a concurrent edit at --path by keeping the --pick value, or
+              step through every conflict with --all, one change each
+  append      Append the changes from a new JSON version to the -o file
+  compact     Fold an appended Automerge file back into a single snapshot
+  watch       Record every saved version of the -i JSON file as changes to the
+              -o Automerge file until stopped with Ctrl+C
+  serve       Serve an HTTP API for conversions and the .automerge files in
+              --dir, on localhost only unless --host is given
+  sync-server Host the documents in --dir for automerge-repo clients over a
+              WebSocket, importing JSON files dropped into it
+  repo-export Write JSON as a document into an automerge-repo storage directory (-o)
+  repo-import Read a document from an automerge-repo storage directory (-i) as JSON
+  sync-offer  Start syncing the -d document with a peer: write the first message
+  sync-answer Apply a sync message from a peer to the -d document and write the
+              reply (also used for follow-ups)
+  sync-apply  Apply the peer's answer to the -d document and write the follow-up,
+              if one is still needed
 
 OPTIONS:
-  -i, --input <FILE>     Input file path (if not provided, reads from stdin for json2bin)
-  -o, --output <FILE>    Output file path (if not provided, writes to stdout for bin2json)
+  -i, --input <FILE>     Input file path (if not provided, reads from stdin for json2bin);
+                         repeat for merge
+  -o, --output <FILE>    Output file path (if not provided, writes to stdout for bin2json);
+                         patch, resolve and compact rewrite the input in place
+                         without it
   -a, --actor <ID>       Actor ID for the automerge document
   -v, --validate         Validate JSON before conversion
-  -t, --test             Test repo compatibility after conversion
+  -t, --test             Round-trip the binary through a Repo after conversion
+  -b, --base <FILE>      Existing Automerge file to update (json2bin), applying
+                         only the differences as a new change
+      --id-field <NAME>  Match array elements by this field when updating
+      --type-map <FILE>  JSON file mapping paths to Automerge types (json2bin),
+                         e.g. {"/users/*/bio": "text", "/visits": "counter"}
+      --schema <FILE>    JSON Schema the JSON must match before writing (json2bin)
+                         or after reading (bin2json)
+      --numbers <FILE>   JSON number policy (json2bin), e.g.
+                         {"largeIntegers": "string", "paths": {"/price": "float"}}
+      --input-format <FORMAT>
+                         Syntax of the JSON input: json (default), jsonc, json5 or
+                         auto (json2bin); bin2json with jsonc or json5 writes kept
+                         comments back in place
+      --keep-comments    Keep the comments of JSONC or JSON5 input in a
+                         "$comments" field of the document (json2bin)
+  -m, --message <TEXT>   Commit message for the generated change (json2bin)
+      --time <TIME>      Timestamp for the generated change, as an ISO date or
+                         @<seconds> since the epoch (json2bin)
+      --deterministic    Byte-identical output for identical input: derive the
+                         actor from --seed or the JSON and fix the timestamp (json2bin)
+      --seed <TEXT>      Seed of the actor ID with --deterministic
+      --hash             Print the SHA-256 digest of the produced binary (json2bin)
+  -x, --extended         Use lossless extended JSON with tagged values such as
+                         {"$counter": 5} or {"$bytes": "base64"}
+      --at <HEADS>       Convert the version at these comma-separated heads (bin2json)
+      --before <DATE>    Convert the version before this ISO timestamp (bin2json)
+      --with-meta        Output {heads, actors, doc} instead of the bare JSON (bin2json)
+      --conflicts        Output {doc, conflicts} with every concurrently edited path,
+                         its competing values and their actors (bin2json)
+      --conflict-markers Replace concurrently edited values with {"$conflict": [...]}
+                         markers for review (bin2json)
+      --path <POINTER>   JSON Pointer of the conflict to resolve (resolve)
+      --pick <PICK>      Actor ID, operation ID or JSON value to keep (resolve)
+      --all              Ask which value to keep for each conflict in turn (resolve)
+      --from <HEADS>     Earlier version for changes (default: the empty document)
+      --to <HEADS>       Later version for changes (default: the latest)
+      --patch <FILE>     JSON Patch operations to apply (patch; stdin if not provided)
+      --document-id <ID> Document ID or automerge URL to use (json2bin) or to read
+                         from the repo storage directory (repo-import; repo-export
+                         adds a change to it)
+      --print-url        Print the automerge: URL of the converted document (json2bin)
+  -d, --doc <FILE>       Automerge document to sync, updated in place (sync-*);
+                         messages are read from -i and written to -o
+      --sync-state <FILE>
+                         Sync state with the peer (default: <doc>.sync)
+      --ops              Decode the operations of each change (history)
+      --format <FORMAT>  Output format for history: table (default), json, ndjson;
+                         for inspect: text (default), json
+      --dir <DIR>        Directory of the documents to serve (default: current)
+      --port <PORT>      Port to serve on (default: 8080, sync-server: 3030)
+      --host <HOST>      Address to serve on (default: 127.0.0.1)
+      --allow-origin <ORIGIN>
+                         Let web pages from ORIGIN write or sync; repeatable
+      --json-mirrors     Write each document clients change as <name>.json too
+                         (sync-server)
+      --error-format <FORMAT>
+                         Print errors on stderr as text (default) or as a JSON
+                         object with the error code, exit code and details
   -h, --help             Show this help message
 
+EXIT CODES:
+  0   Success
+  1   Unexpected error
+  2   Invalid command line or option value (INVALID_OPTION)
+  3   Invalid JSON input (INVALID_JSON)
+  4   JSON or document does not match the schema (SCHEMA_MISMATCH)
+  5   Invalid or corrupt Automerge binary (INVALID_BINARY)
+  6   Empty Automerge binary (EMPTY_BINARY)
+  7   Invalid actor ID (INVALID_ACTOR_ID)
+  8   File could not be read or written (FILE_ACCESS)
+  9   JSON Patch operation invalid or test failed (JSON_PATCH_FAILED)
+  10  Documents to merge share no history (UNRELATED_DOCUMENTS)
+
 EXAMPLES:
   # Convert JSON from stdin to binary file
   echo '{"hello": "world"}' | deno run -A cli.ts json2bin -o document.automerge
@@ -51,6 +226,74 @@ EXAMPLES:
   # Convert binary file to JSON file
   deno run -A cli.ts bin2json -i document.automerge -o output.json
 
+  # Update an existing document with an edited JSON file
+  deno run -A cli.ts json2bin -i data.json -b document.automerge -o document.automerge --id-field id
+
+  # Keep the source system's modification time and describe the import
+  deno run -A cli.ts json2bin -i export.json -o document.automerge -m "Import from CRM" --time 2025-06-01T12:00:00Z
+
+  # Lossless round trip of timestamps, bytes, counters and number types
+  deno run -A cli.ts bin2json -i document.automerge -x | deno run -A cli.ts json2bin -x -o copy.automerge
+
+  # Convert a commented config file and restore its comments later
+  deno run -A cli.ts json2bin -i config.jsonc -o config.automerge --input-format jsonc --keep-comments
+  deno run -A cli.ts bin2json -i config.automerge --input-format jsonc
+
+  # Reproducible output for caching and snapshot tests, with its digest
+  deno run -A cli.ts json2bin -i data.json -o document.automerge --deterministic --hash
+
+  # Convert for repo.import() and print the automerge: URL to link to it
+  deno run -A cli.ts json2bin -i data.json -o document.automerge --print-url
+
+  # Merge offline copies of the same document
+  deno run -A cli.ts merge -i a.automerge -i b.automerge -o merged.automerge
+
+  # Tell a downstream service what changed since the last export
+  deno run -A cli.ts changes -i document.automerge --from <head>,<head> -o changes.json
+
+  # Apply JSON Patch operations produced by another system
+  deno run -A cli.ts patch -i document.automerge --patch ops.json -m "Sync from backend"
+
+  # Keep one side of a concurrent edit, or decide every conflict in turn
+  deno run -A cli.ts resolve -i merged.automerge --path /settings/theme --pick dark
+  deno run -A cli.ts resolve -i merged.automerge --all
+
+  # Record a new version cheaply, then fold the appended chunks together
+  deno run -A cli.ts append -i data.json -o document.automerge --id-field id
+  deno run -A cli.ts compact -i document.automerge
+
+  # Keep a document in step with a hand-edited config file
+  deno run -A cli.ts watch -i config.json -o config.automerge
+
+  # Serve conversions and stored documents to other local services
+  deno run -A cli.ts serve --dir documents --port 8080 --id-field id
+  curl --data-binary @data.json localhost:8080/json2bin -o document.automerge
+
+  # Let browser clients running automerge-repo edit converted documents live
+  deno run -A cli.ts sync-server --dir documents --json-mirrors
+
+  # Seed an automerge-repo data directory offline, then read the document back
+  deno run -A cli.ts repo-export -i data.json -o automerge-repo-data
+  deno run -A cli.ts repo-import -i automerge-repo-data --document-id <ID>
+
+  # Exchange only the missing changes between two offline machines
+  deno run -A cli.ts sync-offer -d document.automerge -o offer.msg
+  deno run -A cli.ts sync-answer -d document.automerge -i offer.msg -o answer.msg
+  deno run -A cli.ts sync-apply -d document.automerge -i answer.msg -o followup.msg
+
+  # Export the document as it was at the start of the year, with its heads
+  deno run -A cli.ts bin2json -i document.automerge --before 2025-01-01T00:00:00Z --with-meta
+
+  # Review the fields two people edited at the same time
+  deno run -A cli.ts bin2json -i merged.automerge --conflicts
+  deno run -A cli.ts bin2json -i merged.automerge --conflict-markers -o review.json
+
+  # Find out why a file cannot be loaded
+  deno run -A cli.ts inspect -i document.automerge
+
+  # Show who changed what, with decoded operations, as JSON
+  deno run -A cli.ts history -i document.automerge --ops --format json
+
   # With validation and testing
   echo '{"test": true}' | deno run -A cli.ts json2bin -o test.automerge -v -t
 
@@ -59,6 +302,38 @@ EXAMPLES:
   deno task bin2json -i document.automerge -o output.json
 `;
 
+/**
+ * Exit code of each kind of failure, so scripts can tell them apart
+ */
+const EXIT_CODES: Record<ErrorCode | "ERROR", number> = {
+  ERROR: 1,
+  INVALID_OPTION: 2,
+  INVALID_JSON: 3,
+  SCHEMA_MISMATCH: 4,
+  INVALID_BINARY: 5,
+  EMPTY_BINARY: 6,
+  INVALID_ACTOR_ID: 7,
+  FILE_ACCESS: 8,
+  JSON_PATCH_FAILED: 9,
+  UNRELATED_DOCUMENTS: 10,
+};
+
+/**
+ * Report an error on stderr in the requested format and exit with its code
+ */
+function fail(options: CliOptions, error: unknown, context = "Error"): never {
+  const { name, code, message, ...details } = describeError(error);
+
+  if (options.errorFormat === "json") {
+    console.error(JSON.stringify({
+      error: { name, code, exitCode: EXIT_CODES[code], message, ...details },
+    }));
+  } else {
+    console.error(`${context}:`, message);
+  }
+  Deno.exit(EXIT_CODES[code]);
+}
+
 function parseArgs(args: string[]): { command: string; options: CliOptions } {
   const options: CliOptions = {};
   let command = "";
@@ -71,6 +346,7 @@ function parseArgs(args: string[]): { command: string; options: CliOptions } {
     } else if (arg === "-i" || arg === "--input") {
       const inputArg = args[++i];
       options.input = inputArg === "-" ? undefined : inputArg;
+      options.inputs = [...(options.inputs ?? []), inputArg];
     } else if (arg === "-o" || arg === "--output") {
       const outputArg = args[++i];
       options.output = outputArg === "-" ? undefined : outputArg;
@@ -80,6 +356,78 @@ function parseArgs(args: string[]): { command: string; options: CliOptions } {
       options.validate = true;
     } else if (arg === "-t" || arg === "--test") {
       options.test = true;
+    } else if (arg === "-b" || arg === "--base") {
+      options.base = args[++i];
+    } else if (arg === "--id-field") {
+      options.idField = args[++i];
+    } else if (arg === "--type-map") {
+      options.typeMap = args[++i];
+    } else if (arg === "--schema") {
+      options.schema = args[++i];
+    } else if (arg === "--numbers") {
+      options.numbers = args[++i];
+    } else if (arg === "-m" || arg === "--message") {
+      options.message = args[++i];
+    } else if (arg === "--time") {
+      options.time = args[++i];
+    } else if (arg === "-x" || arg === "--extended") {
+      options.extended = true;
+    } else if (arg === "--patch") {
+      options.patch = args[++i];
+    } else if (arg === "--document-id") {
+      options.documentId = args[++i];
+    } else if (arg === "--print-url") {
+      options.printUrl = true;
+    } else if (arg === "--deterministic") {
+      options.deterministic = true;
+    } else if (arg === "--seed") {
+      options.seed = args[++i];
+    } else if (arg === "--hash") {
+      options.hash = true;
+    } else if (arg === "-d" || arg === "--doc") {
+      options.doc = args[++i];
+    } else if (arg === "--sync-state") {
+      options.syncState = args[++i];
+    } else if (arg === "--ops") {
+      options.ops = true;
+    } else if (arg === "--format") {
+      options.format = args[++i];
+    } else if (arg === "--at") {
+      options.at = args[++i];
+    } else if (arg === "--before") {
+      options.before = args[++i];
+    } else if (arg === "--path") {
+      options.path = args[++i];
+    } else if (arg === "--pick") {
+      options.pick = args[++i];
+    } else if (arg === "--all") {
+      options.all = true;
+    } else if (arg === "--from") {
+      options.from = args[++i];
+    } else if (arg === "--to") {
+      options.to = args[++i];
+    } else if (arg === "--with-meta") {
+      options.withMeta = true;
+    } else if (arg === "--conflicts") {
+      options.conflicts = "list";
+    } else if (arg === "--conflict-markers") {
+      options.conflicts = "markers";
+    } else if (arg === "--error-format") {
+      options.errorFormat = args[++i];
+    } else if (arg === "--input-format") {
+      options.inputFormat = args[++i];
+    } else if (arg === "--keep-comments") {
+      options.keepComments = true;
+    } else if (arg === "--dir") {
+      options.dir = args[++i];
+    } else if (arg === "--port") {
+      options.port = args[++i];
+    } else if (arg === "--host") {
+      options.host = args[++i];
+    } else if (arg === "--allow-origin") {
+      options.allowOrigins = [...(options.allowOrigins ?? []), args[++i]];
+    } else if (arg === "--json-mirrors") {
+      options.jsonMirrors = true;
     } else if (!command && !arg.startsWith("-")) {
       command = arg;
     }
@@ -88,8 +436,7 @@ function parseArgs(args: string[]): { command: string; options: CliOptions } {
   return { command, options };
 }
 
-async function readStdin(): Promise<string> {
-  const decoder = new TextDecoder();
+async function readStdinBytes(): Promise<Uint8Array> {
   const chunks: Uint8Array[] = [];
 
   for await (const chunk of Deno.stdin.readable) {
@@ -105,45 +452,167 @@ async function readStdin(): Promise<string> {
     offset += chunk.length;
   }
 
-  return decoder.decode(combined);
+  return combined;
 }
 
-async function json2bin(options: CliOptions): Promise<void> {
+async function readStdin(): Promise<string> {
+  return new TextDecoder().decode(await readStdinBytes());
+}
+
+/**
+ * Read an Automerge binary from the input file, or from stdin if not provided
+ */
+async function readBinaryInput(options: CliOptions): Promise<Uint8Array> {
+  return options.input
+    ? await Deno.readFile(options.input)
+    : await readStdinBytes();
+}
+
+/**
+ * Parse comma-separated change hashes given on the command line
+ */
+function parseHeads(text: string): string[] {
+  return text.split(",").map((head) => head.trim()).filter(Boolean);
+}
+
+/**
+ * Build the conversion options shared by the commands that write documents
+ */
+async function writeOptions(options: CliOptions): Promise<ConversionOptions> {
   const conversionOptions: ConversionOptions = {
     actor: options.actor,
     validateJson: options.validate,
+    extended: options.extended,
+    message: options.message,
+    deterministic: options.deterministic,
+    seed: options.seed,
   };
 
+  if (options.time) {
+    conversionOptions.time = parseTime(options, options.time);
+  }
+
+  if (options.typeMap) {
+    try {
+      conversionOptions.typeMap = await readOptionFile(options.typeMap);
+    } catch (error) {
+      fail(options, error, "Error reading type map file");
+    }
+  }
+
+  if (options.schema) {
+    conversionOptions.schema = await readSchema(options);
+  }
+
+  if (options.numbers) {
+    try {
+      conversionOptions.numbers = await readOptionFile(options.numbers);
+    } catch (error) {
+      fail(options, error, "Error reading number policy file");
+    }
+  }
+
+  return conversionOptions;
+}
+
+async function readSchema(options: CliOptions): Promise<JsonSchema> {
+  try {
+    return await readOptionFile(options.schema!);
+  } catch (error) {
+    fail(options, error, "Error reading schema file");
+  }
+}
+
+/**
+ * Read a JSON file given as an option. Syntax errors are invalid options, so
+ * the exit code tells them apart from invalid input JSON.
+ */
+async function readOptionFile<T>(path: string): Promise<T> {
+  const text = await accessFile(path, () => Deno.readTextFile(path));
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InvalidOptionError(
+      `${path} is not valid JSON: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
+}
+
+/**
+ * Read and parse JSON from the input file, or from stdin if not provided
+ */
+async function readJsonInput(options: CliOptions): Promise<unknown> {
   let jsonData: unknown;
 
   if (options.input) {
     // Read from file
     const jsonText = await Deno.readTextFile(options.input);
     try {
-      jsonData = JSON.parse(jsonText);
+      jsonData = parseJsonInput(jsonText, options);
     } catch (error) {
-      console.error(
-        "Error parsing JSON file:",
-        error instanceof Error ? error.message : String(error),
-      );
-      Deno.exit(1);
+      fail(options, error, "Error parsing JSON file");
     }
   } else {
     // Read from stdin
     const jsonText = await readStdin();
     try {
-      jsonData = JSON.parse(jsonText);
+      jsonData = parseJsonInput(jsonText, options);
     } catch (error) {
-      console.error(
-        "Error parsing JSON from stdin:",
-        error instanceof Error ? error.message : String(error),
-      );
-      Deno.exit(1);
+      fail(options, error, "Error parsing JSON from stdin");
     }
   }
 
+  return jsonData;
+}
+
+/**
+ * Parse JSON input in the syntax given by --input-format, keeping its comments
+ * in the document with --keep-comments
+ */
+function parseJsonInput(text: string, options: CliOptions): unknown {
+  const { value, comments } = parseJsonText(
+    text,
+    (options.inputFormat ?? "json") as InputFormat,
+  );
+  return options.keepComments ? attachComments(value, comments) : value;
+}
+
+async function json2bin(options: CliOptions): Promise<void> {
+  const conversionOptions = await writeOptions(options);
+  const jsonData = await readJsonInput(options);
+
+  if (options.printUrl && options.base && !options.documentId) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "--print-url with --base needs --document-id, since the binary does not store its ID",
+      ),
+    );
+  }
+
   try {
-    const binary = jsonToAutomerge(jsonData, conversionOptions);
+    let binary: Uint8Array;
+    let url: string | undefined;
+    if (options.base) {
+      binary = updateAutomergeFromJson(
+        await Deno.readFile(options.base),
+        jsonData,
+        { ...conversionOptions, arrayIdField: options.idField },
+      );
+      url = options.documentId === undefined
+        ? undefined
+        : stringifyAutomergeUrl(
+          { documentId: resolveDocumentId(options.documentId) },
+        );
+    } else {
+      ({ binary, url } = jsonToRepoCompatible(jsonData, {
+        ...conversionOptions,
+        documentId: options.documentId,
+      }));
+    }
 
     if (options.output) {
       await Deno.writeFile(options.output, binary);
@@ -155,69 +624,754 @@ async function json2bin(options: CliOptions): Promise<void> {
       await Deno.stdout.write(binary);
     }
 
+    if (options.printUrl) {
+      // Keep stdout clean when it carries the binary
+      (options.output ? console.log : console.error)(url);
+    }
+
+    if (options.hash) {
+      (options.output ? console.log : console.error)(
+        hashAutomergeBinary(binary),
+      );
+    }
+
     // Test repo compatibility if requested
     if (options.test) {
-      const compatible = await testRepoCompatibility(binary);
-      console.error(
-        `✓ Repo compatibility test: ${compatible ? "PASS" : "FAIL"}`,
-      );
+      const { compatible, problems } = await testRepoCompatibility(binary);
+      if (!compatible) {
+        fail(
+          options,
+          new InvalidAutomergeBinaryError(
+            `Repo compatibility test failed: ${problems.join("; ")}`,
+          ),
+          "✗ Repo compatibility test",
+        );
+      }
+      console.error("✓ Repo compatibility test: PASS");
     }
   } catch (error) {
-    console.error(
-      "Error during conversion:",
-      error instanceof Error ? error.message : String(error),
-    );
-    Deno.exit(1);
+    fail(options, error, "Error during conversion");
   }
 }
 
 async function bin2json(options: CliOptions): Promise<void> {
-  const conversionOptions: ConversionOptions = {
+  const conversionOptions: ReadOptions = {
     actor: options.actor,
+    extended: options.extended,
+    heads: options.at === undefined ? undefined : parseHeads(options.at),
+    before: options.before,
+    withMeta: options.withMeta,
+    conflicts: options.conflicts,
+    schema: options.schema ? await readSchema(options) : undefined,
   };
 
   try {
-    let jsonData: unknown;
+    const binary = await readBinaryInput(options);
+    const jsonData = automergeToJson(binary, conversionOptions);
+    let jsonText: string;
+    if (
+      (options.inputFormat === "jsonc" || options.inputFormat === "json5") &&
+      !options.withMeta && options.conflicts !== "list"
+    ) {
+      // Write the comments kept by json2bin --keep-comments back in place
+      const { value, comments } = detachComments(jsonData);
+      jsonText = stringifyJsonc(value, comments);
+    } else {
+      jsonText = stringifyLosslessJson(jsonData, 2);
+    }
 
-    if (options.input) {
-      // Read from file
-      const binary = await Deno.readFile(options.input);
-      jsonData = automergeToJson(binary, conversionOptions);
+    if (options.output) {
+      await Deno.writeTextFile(options.output, jsonText);
+      console.error(
+        `✓ Converted Automerge binary to JSON -> ${options.output}`,
+      );
     } else {
-      // Read binary from stdin
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of Deno.stdin.readable) {
-        chunks.push(chunk);
-      }
+      // Write to stdout
+      console.log(jsonText);
+    }
+  } catch (error) {
+    fail(options, error, "Error during conversion");
+  }
+}
+
+async function merge(options: CliOptions): Promise<void> {
+  const inputs = options.inputs ?? [];
+  if (inputs.length < 2) {
+    fail(
+      options,
+      new InvalidOptionError("merge needs at least two -i <FILE> inputs"),
+    );
+  }
 
-      const combined = new Uint8Array(
-        chunks.reduce((acc, chunk) => acc + chunk.length, 0),
+  try {
+    const binaries = await Promise.all(
+      inputs.map((input) => Deno.readFile(input)),
+    );
+    const { binary, changesByActor, newChangesPerInput } = mergeAutomerge(
+      binaries,
+    );
+
+    if (options.output) {
+      await Deno.writeFile(options.output, binary);
+      console.error(
+        `✓ Merged ${inputs.length} documents (${binary.length} bytes) -> ${options.output}`,
       );
-      let offset = 0;
-      for (const chunk of chunks) {
-        combined.set(chunk, offset);
-        offset += chunk.length;
-      }
+    } else {
+      await Deno.stdout.write(binary);
+    }
 
-      jsonData = automergeToJson(combined, conversionOptions);
+    inputs.forEach((input, index) => {
+      console.error(`  ${input}: ${newChangesPerInput[index]} new changes`);
+    });
+    for (const [actor, count] of Object.entries(changesByActor)) {
+      console.error(`  actor ${actor}: ${count} changes`);
     }
-    const jsonText = JSON.stringify(jsonData, null, 2);
+  } catch (error) {
+    fail(options, error, "Error during merge");
+  }
+}
+
+async function changes(options: CliOptions): Promise<void> {
+  try {
+    const binary = await readBinaryInput(options);
+    const operations = diffAsJsonPatch(
+      binary,
+      parseHeads(options.from ?? ""),
+      options.to === undefined ? undefined : parseHeads(options.to),
+      { actor: options.actor },
+    );
+    const jsonText = stringifyLosslessJson(operations, 2);
 
     if (options.output) {
       await Deno.writeTextFile(options.output, jsonText);
       console.error(
-        `✓ Converted Automerge binary to JSON -> ${options.output}`,
+        `✓ Wrote ${operations.length} JSON Patch operations -> ${options.output}`,
       );
     } else {
-      // Write to stdout
       console.log(jsonText);
     }
   } catch (error) {
+    fail(options, error, "Error computing changes");
+  }
+}
+
+async function patch(options: CliOptions): Promise<void> {
+  if (!options.input) {
+    fail(
+      options,
+      new InvalidOptionError("patch needs the Automerge file to patch (-i)"),
+    );
+  }
+
+  const conversionOptions = await writeOptions(options);
+  let operations: JsonPatchOperation[];
+  try {
+    operations = parseLosslessJson(
+      options.patch
+        ? await Deno.readTextFile(options.patch)
+        : await readStdin(),
+    ) as JsonPatchOperation[];
+  } catch (error) {
+    fail(options, error, "Error parsing JSON Patch");
+  }
+
+  try {
+    const output = options.output ?? options.input;
+    const binary = applyJsonPatch(
+      await Deno.readFile(options.input),
+      operations,
+      conversionOptions,
+    );
+    await Deno.writeFile(output, binary);
+    console.error(
+      `✓ Applied ${operations.length} patch operations (${binary.length} bytes) -> ${output}`,
+    );
+  } catch (error) {
+    fail(options, error, "Error during patch");
+  }
+}
+
+async function resolve(options: CliOptions): Promise<void> {
+  if (
+    !options.input ||
+    (!options.all && (options.path === undefined || options.pick === undefined))
+  ) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "resolve needs the Automerge file (-i) and either --path with --pick, or --all",
+      ),
+    );
+  }
+  if (options.all && !Deno.stdin.isTerminal()) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "resolve --all asks for each value on a terminal; use --path and --pick in scripts",
+      ),
+    );
+  }
+
+  const conversionOptions = await writeOptions(options);
+  const output = options.output ?? options.input;
+  try {
+    const input = options.input;
+    let binary: Uint8Array = await accessFile(
+      input,
+      () => Deno.readFile(input),
+    );
+    let resolved = 0;
+
+    if (options.all) {
+      const skipped = new Set<string>();
+      while (true) {
+        // Keeping a value can settle the conflicts nested in the others
+        const conflicts = findConflicts(loadDocument(binary, conversionOptions))
+          .filter(({ path }) => !skipped.has(path));
+        if (conflicts.length === 0) {
+          break;
+        }
+
+        const [{ path, values }] = conflicts;
+        console.error(`\nConflict at ${path} (${conflicts.length} left):`);
+        values.forEach(({ value, actor, winner }, index) => {
+          console.error(
+            `  ${index + 1}) ${JSON.stringify(value)} by ${actor}${
+              winner ? " (shown)" : ""
+            }`,
+          );
+        });
+        const answer = prompt(
+          `Keep which value? [1-${values.length}, s to skip, q to quit]`,
+        )?.trim();
+        if (answer === undefined || answer === "q") {
+          break;
+        }
+        if (answer === "s") {
+          skipped.add(path);
+          continue;
+        }
+        const choice = values[Number(answer) - 1];
+        if (!/^\d+$/.test(answer) || choice === undefined) {
+          console.error(`Enter a number from 1 to ${values.length}`);
+          continue;
+        }
+        binary =
+          resolveConflict(binary, path, choice.opId, conversionOptions).binary;
+        resolved++;
+      }
+    } else {
+      const result = resolveConflict(
+        binary,
+        options.path!,
+        options.pick!,
+        conversionOptions,
+      );
+      binary = result.binary;
+      resolved++;
+      console.error(
+        `✓ Kept ${
+          JSON.stringify(result.value)
+        } by ${result.actor} at ${options.path}`,
+      );
+    }
+
+    if (resolved > 0) {
+      // Usually the input itself, which must not be left half written
+      await writeFileAtomically(output, binary);
+    }
+    console.error(
+      resolved > 0
+        ? `✓ Resolved ${resolved} ${
+          resolved === 1 ? "conflict" : "conflicts"
+        } (${binary.length} bytes) -> ${output}`
+        : "✓ No conflicts resolved",
+    );
+  } catch (error) {
+    fail(options, error, "Error during resolve");
+  }
+}
+
+async function append(options: CliOptions): Promise<void> {
+  if (!options.output) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "append needs the Automerge file to append to (-o)",
+      ),
+    );
+  }
+
+  const conversionOptions = await writeOptions(options);
+  const jsonData = await readJsonInput(options);
+
+  try {
+    const written = await appendJsonToAutomergeFile(options.output, jsonData, {
+      ...conversionOptions,
+      arrayIdField: options.idField,
+    });
+    console.error(
+      written > 0
+        ? `✓ Appended ${written} bytes -> ${options.output}`
+        : `✓ No changes to append -> ${options.output}`,
+    );
+  } catch (error) {
+    fail(options, error, "Error during append");
+  }
+}
+
+async function compact(options: CliOptions): Promise<void> {
+  if (!options.input) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "compact needs the Automerge file to compact (-i)",
+      ),
+    );
+  }
+
+  try {
+    const output = options.output ?? options.input;
+    const { before, after } = await compactAutomergeFile(options.input, output);
+    console.error(`✓ Compacted ${before} -> ${after} bytes -> ${output}`);
+  } catch (error) {
+    fail(options, error, "Error during compaction");
+  }
+}
+
+async function watch(options: CliOptions): Promise<void> {
+  if (!options.input || !options.output) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "watch needs the JSON file (-i) and the Automerge file (-o)",
+      ),
+    );
+  }
+
+  const { input, output } = options;
+  const conversionOptions = await writeOptions(options);
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  Deno.addSignalListener("SIGINT", stop);
+
+  console.error(`Watching ${input} -> ${output} (Ctrl+C to stop)`);
+  try {
+    await watchJsonFile(input, output, {
+      ...conversionOptions,
+      arrayIdField: options.idField,
+      inputFormat: options.inputFormat as InputFormat | undefined,
+      keepComments: options.keepComments,
+      signal: controller.signal,
+      onRecord: ({ changed, size }) =>
+        console.error(
+          changed
+            ? `✓ Recorded a new version (${size} bytes) -> ${output}`
+            : `✓ No changes to record -> ${output}`,
+        ),
+      // Keep watching: the next save usually fixes a half-written file
+      onError: (error) =>
+        console.error(
+          `✗ Skipped a version of ${input}:`,
+          error instanceof Error ? error.message : String(error),
+        ),
+    });
+  } catch (error) {
+    fail(options, error, "Error while watching");
+  } finally {
+    Deno.removeSignalListener("SIGINT", stop);
+  }
+}
+
+/**
+ * Parse `--time`: an ISO date, or `@<seconds>` for seconds since the epoch.
+ * Bare digits are rejected, since compact dates like 20250601 look the same.
+ */
+function parseTime(options: CliOptions, time: string): Date | number {
+  if (/^@\d+$/.test(time)) {
+    return Number(time.slice(1));
+  }
+  if (/^\d+$/.test(time)) {
+    fail(
+      options,
+      new InvalidOptionError(
+        `Invalid time "${time}": write seconds since the epoch as @${time}, or a date as YYYY-MM-DD`,
+      ),
+    );
+  }
+  return new Date(time);
+}
+
+/**
+ * Read the --port option, falling back to the command's default port
+ */
+function parsePort(options: CliOptions, fallback: number): number {
+  const port = Number(options.port ?? fallback);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    fail(
+      options,
+      new InvalidOptionError(`Invalid port "${options.port}"`),
+    );
+  }
+  return port;
+}
+
+async function serve(options: CliOptions): Promise<void> {
+  const port = parsePort(options, 8080);
+  const dir = options.dir ?? ".";
+  const conversionOptions = await writeOptions(options);
+  await accessFile(dir, () => Deno.mkdir(dir, { recursive: true }));
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  Deno.addSignalListener("SIGINT", stop);
+
+  try {
+    const server = serveDocuments(dir, {
+      ...conversionOptions,
+      arrayIdField: options.idField,
+      port,
+      hostname: options.host,
+      origins: options.allowOrigins,
+      signal: controller.signal,
+      onListen: ({ hostname, port }) =>
+        console.error(
+          `Serving ${dir} on http://${hostname}:${port} (Ctrl+C to stop)`,
+        ),
+    });
+    await server.finished;
+  } catch (error) {
+    fail(options, error, "Error while serving");
+  } finally {
+    Deno.removeSignalListener("SIGINT", stop);
+  }
+}
+
+async function syncServer(options: CliOptions): Promise<void> {
+  const port = parsePort(options, 3030);
+  const dir = options.dir ?? ".";
+  const conversionOptions = await writeOptions(options);
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  Deno.addSignalListener("SIGINT", stop);
+
+  try {
+    const { documents, finished } = await startSyncServer(dir, {
+      ...conversionOptions,
+      port,
+      hostname: options.host,
+      origins: options.allowOrigins,
+      signal: controller.signal,
+      jsonMirrors: options.jsonMirrors,
+      onListen: ({ hostname, port }) =>
+        console.error(
+          `Syncing ${dir} on ws://${hostname}:${port} (Ctrl+C to stop)`,
+        ),
+      onImport: ({ name, url }) =>
+        console.error(`✓ Imported ${name}.json -> ${url}`),
+      // Keep serving: a JSON file is retried when it changes again, and a
+      // mirror is written again on the next save
+      onError: (error) =>
+        console.error(
+          "✗ Skipped a JSON file:",
+          error instanceof Error ? error.message : String(error),
+        ),
+    });
+    for (const { name, url } of documents()) {
+      console.error(`  ${name}: ${url}`);
+    }
+    await finished;
+  } catch (error) {
+    fail(options, error, "Error while syncing");
+  } finally {
+    Deno.removeSignalListener("SIGINT", stop);
+  }
+}
+
+async function repoExport(options: CliOptions): Promise<void> {
+  if (!options.output) {
+    fail(
+      options,
+      new InvalidOptionError("repo-export needs the storage directory (-o)"),
+    );
+  }
+
+  const conversionOptions = await writeOptions(options);
+  const jsonData = await readJsonInput(options);
+
+  try {
+    const { url, file } = await exportToRepoStorage(jsonData, options.output, {
+      ...conversionOptions,
+      arrayIdField: options.idField,
+      documentId: options.documentId,
+    });
+    console.error(
+      file ? `✓ Wrote ${file}` : "✓ No changes to write",
+    );
+    console.log(url);
+  } catch (error) {
+    fail(options, error, "Error during repo export");
+  }
+}
+
+async function repoImport(options: CliOptions): Promise<void> {
+  if (!options.input || !options.documentId) {
+    fail(
+      options,
+      new InvalidOptionError(
+        "repo-import needs the storage directory (-i) and --document-id",
+      ),
+    );
+  }
+
+  try {
+    const binary = await importFromRepoStorage(
+      options.input,
+      options.documentId,
+    );
+    const jsonText = stringifyLosslessJson(
+      automergeToJson(binary, {
+        extended: options.extended,
+        withMeta: options.withMeta,
+      }),
+      2,
+    );
+
+    if (options.output) {
+      await Deno.writeTextFile(options.output, jsonText);
+      console.error(`✓ Read ${options.documentId} -> ${options.output}`);
+    } else {
+      console.log(jsonText);
+    }
+  } catch (error) {
+    fail(options, error, "Error during repo import");
+  }
+}
+
+/**
+ * Read the sync state kept next to the document, if this peer was seen before
+ */
+async function readSyncState(path: string): Promise<Uint8Array | undefined> {
+  try {
+    return await Deno.readFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeSyncMessage(
+  options: CliOptions,
+  message: Uint8Array,
+): Promise<void> {
+  if (options.output) {
+    await Deno.writeFile(options.output, message);
     console.error(
-      "Error during conversion:",
-      error instanceof Error ? error.message : String(error),
+      `✓ Wrote sync message (${message.length} bytes) -> ${options.output}`,
+    );
+  } else {
+    await Deno.stdout.write(message);
+  }
+}
+
+async function syncOffer(options: CliOptions): Promise<void> {
+  if (!options.doc) {
+    fail(
+      options,
+      new InvalidOptionError("sync-offer needs the document to sync (-d)"),
+    );
+  }
+  const statePath = options.syncState ?? `${options.doc}.sync`;
+
+  try {
+    const { message, syncState } = createSyncOffer(
+      await Deno.readFile(options.doc),
+      await readSyncState(statePath),
+    );
+    await Deno.writeFile(statePath, syncState);
+
+    if (message) {
+      await writeSyncMessage(options, message);
+    } else {
+      console.error("✓ Nothing to offer");
+    }
+  } catch (error) {
+    fail(options, error, "Error during sync");
+  }
+}
+
+async function syncReceive(
+  options: CliOptions,
+  command: string,
+): Promise<void> {
+  if (!options.doc) {
+    fail(
+      options,
+      new InvalidOptionError(`${command} needs the document to sync (-d)`),
+    );
+  }
+  const statePath = options.syncState ?? `${options.doc}.sync`;
+
+  try {
+    const message = await readBinaryInput(options);
+    const { binary, syncState, reply, newChanges } = receiveSyncMessage(
+      await Deno.readFile(options.doc),
+      message,
+      await readSyncState(statePath),
+    );
+
+    if (newChanges > 0) {
+      await Deno.writeFile(options.doc, binary);
+    }
+    await Deno.writeFile(statePath, syncState);
+    console.error(`✓ Applied ${newChanges} new changes -> ${options.doc}`);
+
+    if (reply) {
+      await writeSyncMessage(options, reply);
+    } else {
+      console.error("✓ Documents are in sync, no reply needed");
+    }
+  } catch (error) {
+    fail(options, error, "Error during sync");
+  }
+}
+
+function formatHistoryTable(history: ChangeInfo[]): string {
+  const rows = history.map((change) => [
+    change.hash.slice(0, 12),
+    change.actor.slice(0, 12),
+    String(change.seq),
+    change.time ? new Date(change.time * 1000).toISOString() : "-",
+    String(change.opCount),
+    change.deps.map((dep) => dep.slice(0, 8)).join(",") || "-",
+    change.message ?? "",
+  ]);
+  const header = ["HASH", "ACTOR", "SEQ", "TIME", "OPS", "DEPS", "MESSAGE"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+  const lines = [formatRow(header)];
+  history.forEach((change, index) => {
+    lines.push(formatRow(rows[index]));
+    for (const op of change.ops ?? []) {
+      const { action, obj, pred: _pred, ...rest } = op;
+      lines.push(`    ${action} ${obj} ${stringifyLosslessJson(rest)}`);
+    }
+  });
+  return lines.join("\n");
+}
+
+async function history(options: CliOptions): Promise<void> {
+  const format = options.format ?? "table";
+  if (!["table", "json", "ndjson"].includes(format)) {
+    fail(
+      options,
+      new InvalidOptionError(
+        `Unknown format "${format}" (expected table, json or ndjson)`,
+      ),
+    );
+  }
+
+  try {
+    const binary = await readBinaryInput(options);
+    const changes = getHistory(binary, {
+      actor: options.actor,
+      ops: options.ops,
+    });
+
+    let text: string;
+    if (format === "json") {
+      text = stringifyLosslessJson(changes, 2);
+    } else if (format === "ndjson") {
+      text = changes.map((change) => stringifyLosslessJson(change)).join("\n");
+    } else {
+      text = formatHistoryTable(changes);
+    }
+
+    if (options.output) {
+      await Deno.writeTextFile(options.output, text + "\n");
+      console.error(
+        `✓ Wrote history of ${changes.length} changes -> ${options.output}`,
+      );
+    } else {
+      console.log(text);
+    }
+  } catch (error) {
+    fail(options, error, "Error reading history");
+  }
+}
+
+function formatInspection(report: BinaryInspection): string {
+  const lines = [
+    `Valid:       ${report.valid ? "yes" : "no"}`,
+    `Size:        ${report.size} bytes`,
+    `Chunks:      ${report.chunks.length}`,
+    ...report.chunks.map((chunk) =>
+      `  ${chunk.type.padEnd(10)} at ${chunk.offset}, ${chunk.size} bytes` +
+      (chunk.uncompressedSize === undefined
+        ? ""
+        : ` (${chunk.uncompressedSize} uncompressed)`)
+    ),
+  ];
+  if (report.valid) {
+    lines.push(
+      `Changes:     ${report.changes} (${report.uncompressedSize} bytes uncompressed)`,
+      `Operations:  ${report.operations}`,
+      `Objects:     ${report.objects}`,
+      `Actors:      ${report.actors!.join(", ") || "-"}`,
+      `Heads:       ${report.heads!.join(", ") || "-"}`,
+    );
+  }
+  if (report.error) {
+    lines.push(
+      `Error:       ${report.error.kind} at byte ${report.error.offset}`,
+      `  ${report.error.message}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+async function inspect(options: CliOptions): Promise<void> {
+  const format = options.format ?? "text";
+  if (!["text", "json"].includes(format)) {
+    fail(
+      options,
+      new InvalidOptionError(
+        `Unknown format "${format}" (expected text or json)`,
+      ),
+    );
+  }
+
+  let report: BinaryInspection;
+  try {
+    report = await inspectAutomergeBinary(await readBinaryInput(options));
+    const text = format === "json"
+      ? JSON.stringify(report, null, 2)
+      : formatInspection(report);
+
+    if (options.output) {
+      await Deno.writeTextFile(options.output, text + "\n");
+      console.error(`✓ Wrote inspection report -> ${options.output}`);
+    } else {
+      console.log(text);
+    }
+  } catch (error) {
+    fail(options, error, "Error during inspection");
+  }
+
+  // The report is the output, so only the exit code tells scripts it failed
+  if (report.error) {
+    Deno.exit(
+      EXIT_CODES[
+        report.error.kind === "empty" ? "EMPTY_BINARY" : "INVALID_BINARY"
+      ],
     );
-    Deno.exit(1);
   }
 }
 
@@ -229,6 +1383,35 @@ async function main() {
     Deno.exit(0);
   }
 
+  if (options.errorFormat && !["text", "json"].includes(options.errorFormat)) {
+    fail(
+      {},
+      new InvalidOptionError(
+        `Unknown error format "${options.errorFormat}" (expected text or json)`,
+      ),
+    );
+  }
+
+  if (
+    options.inputFormat &&
+    !["json", "jsonc", "json5", "auto"].includes(options.inputFormat)
+  ) {
+    fail(
+      options,
+      new InvalidOptionError(
+        `Unknown input format "${options.inputFormat}" (expected json, jsonc, json5 or auto)`,
+      ),
+    );
+  }
+
+  try {
+    await runCommand(command, options);
+  } catch (error) {
+    fail(options, error);
+  }
+}
+
+async function runCommand(command: string, options: CliOptions): Promise<void> {
   switch (command) {
     case "json2bin":
       await json2bin(options);
@@ -236,10 +1419,59 @@ async function main() {
     case "bin2json":
       await bin2json(options);
       break;
+    case "merge":
+      await merge(options);
+      break;
+    case "history":
+      await history(options);
+      break;
+    case "inspect":
+      await inspect(options);
+      break;
+    case "changes":
+      await changes(options);
+      break;
+    case "patch":
+      await patch(options);
+      break;
+    case "resolve":
+      await resolve(options);
+      break;
+    case "append":
+      await append(options);
+      break;
+    case "compact":
+      await compact(options);
+      break;
+    case "watch":
+      await watch(options);
+      break;
+    case "serve":
+      await serve(options);
+      break;
+    case "sync-server":
+      await syncServer(options);
+      break;
+    case "repo-export":
+      await repoExport(options);
+      break;
+    case "repo-import":
+      await repoImport(options);
+      break;
+    case "sync-offer":
+      await syncOffer(options);
+      break;
+    case "sync-answer":
+    case "sync-apply":
+      await syncReceive(options, command);
+      break;
     default:
-      console.error(`Error: Unknown command "${command}"`);
-      console.error("Use --help to see available commands");
-      Deno.exit(1);
+      fail(
+        options,
+        new InvalidOptionError(
+          `Unknown command "${command}" (use --help to see available commands)`,
+        ),
+      );
   }
 }
 
@@ -0,0 +1,174 @@
+/**
+ * Concurrent edits of the same key or list element
+ *
+ * When two actors set the same field without seeing each other's change,
+ * Automerge keeps both values and shows the one written by the operation with
+ * the highest ID. The values are read with the backend's `getAll` rather than
+ * `A.getConflicts`, which ignores the heads of a view and always reports the
+ * latest version; `getAll` takes heads, so conflicts can be listed as of
+ * `heads` or `before` like the rest of the JSON. Conflict markers replace each
+ * conflicted value in the JSON with the competing values, for review:
+ *
+ * `{"$conflict": [{"value": "A", "actor": "…", "opId": "7@…", "winner": false}, …]}`
+ *
+ * A map of the document whose only key is `$conflict` is written wrapped as
+ * `{"$map": {...}}`, the escape of extended JSON, so it is not read as a
+ * marker.
+ */
+
+import * as A from "@automerge/automerge";
+import { type Backend, encodeValue, type FullValue } from "./extendedJson.ts";
+import { formatPointer, parsePointer } from "./jsonPointer.ts";
+
+/** How `automergeToJson` reports conflicts */
+export type ConflictMode = "list" | "markers";
+
+export interface ConflictingValue {
+  /** The value, as JSON */
+  value: unknown;
+  /** Actor that wrote the value */
+  actor: string;
+  /** ID of the operation that wrote the value (`counter@actor`) */
+  opId: string;
+  /** Whether the document shows this value */
+  winner: boolean;
+}
+
+export interface Conflict {
+  /** JSON Pointer of the conflicted key or list element */
+  path: string;
+  /** The competing values, the winner last */
+  values: ConflictingValue[];
+}
+
+/** Key of the objects that replace conflicted values in marked JSON */
+export const CONFLICT_MARKER = "$conflict";
+
+export const CONFLICT_MODES: readonly ConflictMode[] = ["list", "markers"];
+
+type Entry = ReturnType<Backend["getAll"]>[number];
+
+/**
+ * Find every key and list element of a document that holds concurrently
+ * written values. Objects are searched only along the winning values, the
+ * ones the JSON of the document contains.
+ * @param doc - The document to search
+ * @param heads - Optional heads to search the document as of
+ * @param extended - Whether to write the values as extended JSON
+ * @returns The conflicts, parents before the conflicts nested in them
+ */
+export function findConflicts(
+  doc: A.Doc<unknown>,
+  heads?: A.Heads,
+  extended = false,
+): Conflict[] {
+  const backend = A.getBackend(doc);
+  const conflicts: Conflict[] = [];
+
+  const walk = (objId: string, type: "map" | "list", path: A.Prop[]) => {
+    const props: A.Prop[] = type === "list"
+      ? Array.from({ length: backend.length(objId, heads) }, (_, i) => i)
+      : backend.keys(objId, heads);
+
+    for (const prop of props) {
+      const entries = backend.getAll(objId, prop, heads)
+        .map((entry) => ({ value: fullValue(entry), opId: opIdOf(entry) }))
+        .sort((a, b) => compareOpIds(a.opId, b.opId));
+      if (entries.length > 1) {
+        conflicts.push({
+          path: formatPointer([...path, prop]),
+          values: entries.map(({ value, opId }, index) => ({
+            value: encodeValue(backend, value, heads, extended),
+            actor: opId.slice(opId.indexOf("@") + 1),
+            opId,
+            winner: index === entries.length - 1,
+          })),
+        });
+      }
+
+      const [datatype, value] = entries[entries.length - 1].value;
+      if (datatype === "map" || datatype === "list") {
+        walk(value, datatype, [...path, prop]);
+      }
+    }
+  };
+
+  walk("_root", "map", []);
+  return conflicts;
+}
+
+/**
+ * Replace each conflicted value in the JSON of a document with a conflict
+ * marker listing the competing values. The winning value keeps the markers
+ * of the conflicts nested in it. Maps that would look like a marker are
+ * wrapped as `{"$map": {...}}`, and so are maps whose only key is `$map`
+ * unless the JSON is extended JSON, which wraps those already.
+ * @param json - The JSON of the document
+ * @param conflicts - The conflicts found with `findConflicts`
+ * @param extended - Whether the JSON and the values are extended JSON
+ * @returns A copy of the JSON with conflict markers
+ */
+export function markConflicts(
+  json: unknown,
+  conflicts: Conflict[],
+  extended = false,
+): unknown {
+  const root: Record<string, unknown> = { json: structuredClone(json) };
+  const markers = new Set<unknown>();
+
+  // Nested conflicts first, so their markers end up in the winning values
+  for (const { path, values } of conflicts.toReversed()) {
+    const segments = ["json", ...parsePointer(path)];
+    const key = segments.pop()!;
+    const parent = segments.reduce(
+      (node, segment) => node[segment] as Record<string, unknown>,
+      root,
+    );
+    const marker = {
+      [CONFLICT_MARKER]: values.map((entry) =>
+        entry.winner ? { ...entry, value: parent[key] } : entry
+      ),
+    };
+    markers.add(marker);
+    parent[key] = marker;
+  }
+
+  const escape = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(escape);
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    const map = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, escape(item)]),
+    );
+    const keys = Object.keys(map);
+    const ambiguous = !markers.has(value) && keys.length === 1 &&
+      (keys[0] === CONFLICT_MARKER || (!extended && keys[0] === "$map"));
+    return ambiguous ? { $map: map } : map;
+  };
+  return escape(root.json);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function fullValue(entry: Entry): FullValue {
+  return entry.slice(0, 2) as FullValue;
+}
+
+function opIdOf(entry: Entry): string {
+  // Objects are identified by the operation that created them
+  return entry.length === 3 ? entry[2] : entry[1];
+}
+
+/** Order operation IDs the way Automerge picks winners: counter, then actor */
+function compareOpIds(a: string, b: string): number {
+  const [counterA, actorA] = a.split("@");
+  const [counterB, actorB] = b.split("@");
+  return Number(counterA) - Number(counterB) ||
+    (actorA < actorB ? -1 : actorA > actorB ? 1 : 0);
+}
@@ -0,0 +1,55 @@
+/**
+ * Reproducible binaries
+ *
+ * A document's bytes depend on its actor ID and change timestamps, which are
+ * random and the current time by default. Deterministic conversion derives the
+ * actor from a seed or the JSON and fixes the timestamp, so identical input
+ * always gives byte-identical output.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Timestamp of deterministic changes, in seconds since the Unix epoch */
+export const DETERMINISTIC_TIME = 0;
+
+/**
+ * Derive a 16-byte actor ID from a seed
+ * @param seed - Any text, such as a name or the serialized input JSON
+ * @returns The actor ID as 32 hex digits
+ */
+export function deriveActorId(seed: string): string {
+  return createHash("sha256").update(seed).digest("hex").slice(0, 32);
+}
+
+/**
+ * Copy a JSON tree with the keys of every plain object sorted, so that the
+ * order in which keys are written does not depend on the input
+ * @param value - The JSON value, possibly holding Automerge values
+ * @returns The sorted copy
+ */
+export function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (
+    typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [
+        key,
+        sortKeys((value as Record<string, unknown>)[key]),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Compute the content digest of a binary
+ * @param binary - The Automerge binary data
+ * @returns The SHA-256 digest as hex digits
+ */
+export function hashAutomergeBinary(binary: Uint8Array): string {
+  return createHash("sha256").update(binary).digest("hex");
+}
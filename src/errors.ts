@@ -0,0 +1,227 @@
+/**
+ * Errors thrown by the converter
+ *
+ * Every error has a stable `code`, so callers can tell failures apart without
+ * matching on messages. The CLI maps each code to its own exit code.
+ */
+
+import type { SchemaViolation } from "./schema.ts";
+
+export type ErrorCode =
+  | "INVALID_JSON"
+  | "SCHEMA_MISMATCH"
+  | "INVALID_BINARY"
+  | "EMPTY_BINARY"
+  | "INVALID_ACTOR_ID"
+  | "FILE_ACCESS"
+  | "JSON_PATCH_FAILED"
+  | "UNRELATED_DOCUMENTS"
+  | "INVALID_OPTION";
+
+/**
+ * Base class of all errors thrown by the converter
+ */
+export class ConverterError extends Error {
+  /** Stable identifier of the kind of failure */
+  readonly code: ErrorCode;
+
+  constructor(message: string, code: ErrorCode, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * The input is not JSON the converter can write
+ */
+export class InvalidJsonError extends ConverterError {
+  /** JSON Pointer of the offending value (`""` for the root) */
+  readonly path: string;
+
+  constructor(message: string, path = "", options?: ErrorOptions) {
+    super(message, "INVALID_JSON", options);
+    this.path = path;
+  }
+}
+
+/**
+ * The input text is not valid JSON, JSONC or JSON5
+ */
+export class JsonSyntaxError extends InvalidJsonError {
+  /** Line of the error, starting at 1 */
+  readonly line: number;
+  /** Column of the error, starting at 1 */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * The JSON or the document does not match the given JSON Schema
+ */
+export class SchemaMismatchError extends ConverterError {
+  /** Every violation found */
+  readonly violations: SchemaViolation[];
+
+  constructor(message: string, violations: SchemaViolation[]) {
+    super(message, "SCHEMA_MISMATCH");
+    this.violations = violations;
+  }
+}
+
+/**
+ * The data is not in Automerge format, or is corrupt
+ */
+export class InvalidAutomergeBinaryError extends ConverterError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, "INVALID_BINARY", options);
+  }
+}
+
+/**
+ * The binary data is empty
+ */
+export class EmptyBinaryError extends ConverterError {
+  constructor(message = "Empty binary data is not valid Automerge format") {
+    super(message, "EMPTY_BINARY");
+  }
+}
+
+/**
+ * The actor ID is not an even number of hex digits
+ */
+export class ActorIdError extends ConverterError {
+  /** The rejected actor ID */
+  readonly actor: string;
+
+  constructor(actor: string, options?: ErrorOptions) {
+    super(
+      `Invalid actor ID "${actor}": must be an even number of hex digits`,
+      "INVALID_ACTOR_ID",
+      options,
+    );
+    this.actor = actor;
+  }
+}
+
+/**
+ * A file or directory could not be read or written
+ */
+export class FileAccessError extends ConverterError {
+  /** The file or directory that could not be accessed */
+  readonly path: string;
+
+  constructor(message: string, path: string, options?: ErrorOptions) {
+    super(message, "FILE_ACCESS", options);
+    this.path = path;
+  }
+}
+
+/**
+ * A JSON Patch operation is invalid, or a `test` operation failed
+ */
+export class JsonPatchError extends ConverterError {
+  /** JSON Pointer the failing operation targets */
+  readonly path: string;
+  /** Index of the failing operation in the patch */
+  readonly operation: number;
+
+  constructor(message: string, path: string, operation: number) {
+    super(message, "JSON_PATCH_FAILED");
+    this.path = path;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Documents to merge share no history, so they are not copies of one document
+ */
+export class UnrelatedDocumentsError extends ConverterError {
+  constructor(message: string) {
+    super(message, "UNRELATED_DOCUMENTS");
+  }
+}
+
+/**
+ * An option, such as heads, a type map or a document ID, is invalid
+ */
+export class InvalidOptionError extends ConverterError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, "INVALID_OPTION", options);
+  }
+}
+
+/**
+ * Run a filesystem operation, reporting failures as a `FileAccessError`
+ * @param path - The file or directory the operation accesses
+ * @param operation - The operation to run
+ * @returns The result of the operation
+ */
+export async function accessFile<T>(
+  path: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw new FileAccessError(
+      `Cannot access ${path}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      path,
+      { cause: error },
+    );
+  }
+}
+
+const FILE_ERRORS = [
+  Deno.errors.NotFound,
+  Deno.errors.PermissionDenied,
+  Deno.errors.AlreadyExists,
+  Deno.errors.IsADirectory,
+  Deno.errors.NotADirectory,
+];
+
+/**
+ * Classify any error, including syntax and filesystem errors not thrown by the
+ * converter
+ * @param error - The error
+ * @returns The error code, or `"ERROR"` for unexpected errors
+ */
+export function errorCode(error: unknown): ErrorCode | "ERROR" {
+  if (error instanceof ConverterError) {
+    return error.code;
+  }
+  if (error instanceof SyntaxError) {
+    return "INVALID_JSON";
+  }
+  if (FILE_ERRORS.some((type) => error instanceof type)) {
+    return "FILE_ACCESS";
+  }
+  return "ERROR";
+}
+
+/**
+ * Describe an error as a plain object for JSON output
+ * @param error - The error
+ * @returns The name, code and message, with details such as the path or the
+ *   schema violations
+ */
+export function describeError(error: unknown): {
+  name: string;
+  code: ErrorCode | "ERROR";
+  message: string;
+  [detail: string]: unknown;
+} {
+  return {
+    name: error instanceof Error ? error.name : "Error",
+    code: errorCode(error),
+    message: error instanceof Error ? error.message : String(error),
+    ...(error instanceof ConverterError ? error : {}),
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Lossless "extended JSON" encoding of Automerge values
+ *
+ * Plain JSON cannot tell timestamps, bytes, counters, immutable strings or the
+ * int/uint/f64 number types apart. In extended JSON these values are written
+ * as single-key tagged objects:
+ *
+ * - `{"$timestamp": "2024-01-01T00:00:00.000Z"}` (an ISO string or epoch ms)
+ * - `{"$bytes": "AQID"}` (base64)
+ * - `{"$counter": 5}`
+ * - `{"$immutable": "id-123"}`
+ * - `{"$int": 5}`, `{"$uint": 5}`, `{"$f64": 5}` (also `"Infinity"`,
+ *   `"-Infinity"` and `"-0"` for `$f64`; Automerge cannot store NaN)
+ *
+ * Strings are collaborative text, integers are `int` and other numbers are
+ * `f64` by default, so the encoder only tags numbers that differ from that.
+ *
+ * A map whose only key is one of these tags is written wrapped as
+ * `{"$map": {...}}`, so it is not read back as the tagged value.
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidJsonError } from "./errors.ts";
+import { formatPointer } from "./jsonPointer.ts";
+import { negativeZero } from "./numbers.ts";
+
+export type Backend = ReturnType<typeof A.getBackend>;
+export type FullValue = NonNullable<ReturnType<Backend["getWithType"]>>;
+
+/** Keys that make a single-key object a tagged value */
+const TAGS = new Set([
+  "$timestamp",
+  "$bytes",
+  "$counter",
+  "$immutable",
+  "$int",
+  "$uint",
+  "$f64",
+  "$map",
+]);
+
+/** `$f64` payloads that JSON numbers cannot write */
+const SPECIAL_FLOATS: Record<string, number> = {
+  "Infinity": Infinity,
+  "-Infinity": -Infinity,
+  "-0": -0,
+};
+
+/**
+ * Encode an Automerge document as extended JSON
+ * @param doc - The document to encode
+ * @param heads - Optional heads to encode the document as of
+ * @returns The extended JSON representation
+ */
+export function encodeExtendedJson(
+  doc: A.Doc<unknown>,
+  heads?: A.Heads,
+): unknown {
+  return encodeObject(A.getBackend(doc), "_root", "map", heads, true);
+}
+
+/**
+ * Read a document as plain JSON as of some heads. Unlike `A.view`, which
+ * reports counters with their latest value, this reads every value at `heads`.
+ * @param doc - The document to read
+ * @param heads - The heads to read the document as of
+ * @returns The plain JSON representation
+ */
+export function plainJsonAt(doc: A.Doc<unknown>, heads: A.Heads): unknown {
+  return encodeObject(A.getBackend(doc), "_root", "map", heads, false);
+}
+
+/**
+ * Decode extended JSON tags into the corresponding Automerge values
+ * @param json - The extended JSON value
+ * @param path - The path of `json`, used in error messages
+ * @returns A copy of `json` ready to be written to an Automerge document
+ */
+export function decodeExtendedJson(
+  json: unknown,
+  path: A.Prop[] = [],
+): unknown {
+  if (Array.isArray(json)) {
+    return json.map((item, index) =>
+      decodeExtendedJson(item, [...path, index])
+    );
+  }
+  if (typeof json !== "object" || json === null) {
+    return json;
+  }
+
+  let entries = Object.entries(json);
+  if (entries.length === 1 && entries[0][0] === "$map") {
+    const [, payload] = entries[0];
+    assertPayload(
+      typeof payload === "object" && payload !== null &&
+        !Array.isArray(payload),
+      "$map",
+      "an object",
+      path,
+    );
+    entries = Object.entries(payload as object);
+  } else if (entries.length === 1 && entries[0][0].startsWith("$")) {
+    const [tag, payload] = entries[0];
+    const decoded = decodeTag(tag, payload, path);
+    if (decoded !== undefined) {
+      return decoded;
+    }
+  }
+  return Object.fromEntries(
+    entries.map((
+      [key, value],
+    ) => [key, decodeExtendedJson(value, [...path, key])]),
+  );
+}
+
+function decodeTag(
+  tag: string,
+  payload: unknown,
+  path: A.Prop[],
+): unknown {
+  switch (tag) {
+    case "$timestamp": {
+      const time = typeof payload === "string"
+        ? Date.parse(payload)
+        : payload as number;
+      assertPayload(
+        Number.isFinite(time),
+        tag,
+        "an ISO date or epoch ms",
+        path,
+      );
+      return new Date(time);
+    }
+    case "$bytes":
+      assertPayload(typeof payload === "string", tag, "a base64 string", path);
+      try {
+        return decodeBase64(payload as string);
+      } catch {
+        assertPayload(false, tag, "a base64 string", path);
+      }
+      break;
+    case "$counter":
+      assertPayload(Number.isInteger(payload), tag, "an integer", path);
+      return new A.Counter(payload as number);
+    case "$immutable":
+      assertPayload(typeof payload === "string", tag, "a string", path);
+      return new A.ImmutableString(payload as string);
+    case "$int":
+      if (typeof payload === "bigint") {
+        // Beyond 2^53, read with `parseLosslessJson`; the number policy decides
+        return payload;
+      }
+      assertPayload(
+        Number.isSafeInteger(payload),
+        tag,
+        `an integer within ±${Number.MAX_SAFE_INTEGER}`,
+        path,
+      );
+      return new A.Int(payload as number);
+    case "$uint":
+      if (typeof payload === "bigint" && payload > Number.MAX_SAFE_INTEGER) {
+        return payload;
+      }
+      assertPayload(
+        Number.isSafeInteger(Number(payload)) && Number(payload) >= 0,
+        tag,
+        `a non-negative integer up to ${Number.MAX_SAFE_INTEGER}`,
+        path,
+      );
+      return new A.Uint(Number(payload));
+    case "$f64": {
+      const value = typeof payload === "string"
+        ? SPECIAL_FLOATS[payload]
+        : payload;
+      assertPayload(
+        typeof value === "number" && !Number.isNaN(value),
+        tag,
+        "a number, infinity or -0",
+        path,
+      );
+      return Object.is(value, -0)
+        ? negativeZero()
+        : new A.Float64(value as number);
+    }
+  }
+  return undefined;
+}
+
+function encodeObject(
+  backend: Backend,
+  objId: string,
+  type: "map" | "list" | "text" | "table",
+  heads: A.Heads | undefined,
+  extended: boolean,
+): unknown {
+  switch (type) {
+    case "text":
+      return backend.text(objId, heads);
+    case "list":
+      return Array.from(
+        { length: backend.length(objId, heads) },
+        (_, index) =>
+          encodeValue(
+            backend,
+            backend.getWithType(objId, index, heads)!,
+            heads,
+            extended,
+          ),
+      );
+    default: {
+      const keys = backend.keys(objId, heads);
+      const map = Object.fromEntries(
+        keys.map((key) => [
+          key,
+          encodeValue(
+            backend,
+            backend.getWithType(objId, key, heads)!,
+            heads,
+            extended,
+          ),
+        ]),
+      );
+      return extended && keys.length === 1 && TAGS.has(keys[0])
+        ? { $map: map }
+        : map;
+    }
+  }
+}
+
+/**
+ * Encode one value of a document as plain or extended JSON
+ * @param backend - The backend of the document
+ * @param value - The value with its Automerge type, as the backend returns it
+ * @param heads - Optional heads to read nested objects as of
+ * @param extended - Whether to write extended JSON tags
+ * @returns The JSON representation of the value
+ */
+export function encodeValue(
+  backend: Backend,
+  [datatype, value]: FullValue,
+  heads: A.Heads | undefined,
+  extended: boolean,
+): unknown {
+  switch (datatype) {
+    case "map":
+    case "list":
+    case "text":
+    case "table":
+      return encodeObject(backend, value, datatype, heads, extended);
+  }
+  const scalar: unknown = value;
+  if (typeof scalar === "bigint" && isSafe(scalar)) {
+    // Some backends return 64-bit integers as bigints even when they fit
+    return encodeValue(
+      backend,
+      [datatype, Number(scalar)] as FullValue,
+      heads,
+      extended,
+    );
+  }
+  if (!extended) {
+    return value;
+  }
+  switch (datatype) {
+    case "str":
+      return { $immutable: value };
+    case "uint":
+      return { $uint: value };
+    case "f64":
+      if (!Number.isFinite(value)) {
+        return { $f64: String(value) };
+      }
+      if (Object.is(value, -0)) {
+        return { $f64: "-0" };
+      }
+      return Number.isInteger(value) ? { $f64: value } : value;
+    case "counter":
+      return { $counter: value };
+    case "timestamp":
+      return { $timestamp: value.toISOString() };
+    case "bytes":
+      return { $bytes: encodeBase64(value) };
+    default:
+      return value;
+  }
+}
+
+function isSafe(value: bigint): boolean {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+    value <= BigInt(Number.MAX_SAFE_INTEGER);
+}
+
+function assertPayload(
+  ok: boolean,
+  tag: string,
+  expected: string,
+  path: A.Prop[],
+): asserts ok {
+  if (!ok) {
+    throw new InvalidJsonError(
+      `Invalid extended JSON at ${
+        formatPointer(path)
+      }: ${tag} requires ${expected}`,
+      formatPointer(path),
+    );
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
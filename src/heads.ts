@@ -0,0 +1,80 @@
+/**
+ * Helpers for addressing versions of a document by their heads
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidOptionError } from "./errors.ts";
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Check that heads are well-formed change hashes present in the document
+ * @param doc - The document the heads should belong to
+ * @param heads - The change hashes to check
+ */
+export function assertKnownHeads(doc: A.Doc<unknown>, heads: A.Heads): void {
+  const malformed = heads.filter((hash) => !HASH_PATTERN.test(hash));
+  if (malformed.length > 0) {
+    throw new InvalidOptionError(
+      `Invalid heads: ${malformed.join(", ")} (expected 64 hex characters)`,
+    );
+  }
+  const unknown = heads.filter((hash) => !A.hasHeads(doc, [hash]));
+  if (unknown.length > 0) {
+    throw new InvalidOptionError(
+      `Unknown heads: ${unknown.join(", ")} are not in the document`,
+    );
+  }
+}
+
+/**
+ * Find the heads of the document as it was before a point in time, i.e. of
+ * the changes made before `time` whose dependencies were also made before it
+ * @param doc - The document
+ * @param time - The point in time
+ * @returns The heads of that version (empty if no change was made before it)
+ */
+export function headsBefore(doc: A.Doc<unknown>, time: Date): A.Heads {
+  const included = new Set<string>();
+  const superseded = new Set<string>();
+
+  for (const change of A.getChangesMetaSince(doc, [])) {
+    if (
+      change.time * 1000 < time.getTime() &&
+      change.deps.every((dep) => included.has(dep))
+    ) {
+      included.add(change.hash);
+      change.deps.forEach((dep) => superseded.add(dep));
+    }
+  }
+
+  return [...included].filter((hash) => !superseded.has(hash)).sort();
+}
+
+/**
+ * List the actors that made the changes leading up to some heads
+ * @param doc - The document
+ * @param heads - The heads of the version
+ * @returns The actor IDs, sorted
+ */
+export function actorsAt(doc: A.Doc<unknown>, heads: A.Heads): string[] {
+  const changes = new Map(
+    A.getChangesMetaSince(doc, []).map((change) => [change.hash, change]),
+  );
+  const actors = new Set<string>();
+  const visited = new Set<string>();
+  const pending = [...heads];
+
+  while (pending.length > 0) {
+    const hash = pending.pop()!;
+    const change = changes.get(hash);
+    if (visited.has(hash) || change === undefined) {
+      continue;
+    }
+    visited.add(hash);
+    actors.add(change.actor);
+    pending.push(...change.deps);
+  }
+
+  return [...actors].sort();
+}
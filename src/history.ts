@@ -0,0 +1,65 @@
+/**
+ * Change history of Automerge documents
+ */
+
+import * as A from "@automerge/automerge";
+import {
+  type ConversionOptions,
+  loadDocument,
+} from "./jsonAutomergeConverter.ts";
+
+/** A decoded operation of a change */
+export type ChangeOp = A.DecodedChange["ops"][number];
+
+export interface ChangeInfo {
+  /** Hash identifying the change */
+  hash: string;
+  /** Actor that made the change */
+  actor: string;
+  /** Sequence number of the change among the actor's changes */
+  seq: number;
+  /** Time of the change in seconds since the Unix epoch (0 if not set) */
+  time: number;
+  /** Commit message of the change */
+  message: string | null;
+  /** Hashes of the changes this change depends on */
+  deps: string[];
+  /** Number of operations in the change */
+  opCount: number;
+  /** The decoded operations, when requested with the `ops` option */
+  ops?: ChangeOp[];
+}
+
+export interface HistoryOptions extends ConversionOptions {
+  /** Whether to decode the operations of every change */
+  ops?: boolean;
+}
+
+/**
+ * List the changes of an Automerge document in causal order
+ * @param binary - The Automerge binary data
+ * @param options - Optional loading and decoding settings
+ * @returns The changes, oldest first
+ */
+export function getHistory(
+  binary: Uint8Array,
+  options: HistoryOptions = {},
+): ChangeInfo[] {
+  const doc = loadDocument(binary, options);
+
+  return A.getChangesMetaSince(doc, []).map((meta) => {
+    const info: ChangeInfo = {
+      hash: meta.hash,
+      actor: meta.actor,
+      seq: meta.seq,
+      time: meta.time,
+      message: meta.message,
+      deps: meta.deps,
+      opCount: meta.maxOp - meta.startOp + 1,
+    };
+    if (options.ops) {
+      info.ops = A.inspectChange(doc, meta.hash)?.ops ?? [];
+    }
+    return info;
+  });
+}
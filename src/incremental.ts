@@ -0,0 +1,100 @@
+/**
+ * Incremental Automerge files: a snapshot followed by appended change chunks
+ *
+ * Appending only the new changes avoids rewriting large files on every
+ * update and keeps tools that tail the file working. `A.load` reads a snapshot
+ * followed by any number of chunks, so such files can be read like any other.
+ */
+
+import * as A from "@automerge/automerge";
+import { accessFile, FileAccessError } from "./errors.ts";
+import {
+  jsonToAutomerge,
+  loadDocument,
+  updateDocumentFromJson,
+  type UpdateOptions,
+} from "./jsonAutomergeConverter.ts";
+
+/**
+ * Append the changes needed to turn the document in a file into a new JSON
+ * version, as an incremental chunk at the end of the file. A missing file is
+ * created with a full snapshot.
+ * @param filePath - Path to the Automerge file
+ * @param json - The new JSON version of the document
+ * @param options - Optional conversion and array matching settings
+ * @returns The number of bytes written (0 if nothing changed)
+ */
+export async function appendJsonToAutomergeFile(
+  filePath: string,
+  json: unknown,
+  options: UpdateOptions = {},
+): Promise<number> {
+  let existing: Uint8Array;
+  try {
+    existing = await accessFile(filePath, () => Deno.readFile(filePath));
+  } catch (error) {
+    if (
+      !(error instanceof FileAccessError &&
+        error.cause instanceof Deno.errors.NotFound)
+    ) {
+      throw error;
+    }
+    const binary = jsonToAutomerge(json, options);
+    await accessFile(filePath, () => Deno.writeFile(filePath, binary));
+    return binary.length;
+  }
+
+  const doc = loadDocument<Record<string, unknown>>(existing, options);
+  const heads = A.getHeads(doc);
+  const updated = updateDocumentFromJson(doc, json, options);
+  if (updated === doc) {
+    return 0;
+  }
+
+  const chunk = A.saveSince(updated, heads);
+  await accessFile(
+    filePath,
+    () => Deno.writeFile(filePath, chunk, { append: true }),
+  );
+  return chunk.length;
+}
+
+/**
+ * Fold a snapshot and its appended chunks back into a single snapshot. The
+ * result is written to a temporary file first and then renamed into place.
+ * @param filePath - Path to the Automerge file
+ * @param outputPath - Where to write the compacted file (defaults to `filePath`)
+ * @returns The size in bytes before and after compaction
+ */
+export async function compactAutomergeFile(
+  filePath: string,
+  outputPath: string = filePath,
+): Promise<{ before: number; after: number }> {
+  const existing = await accessFile(filePath, () => Deno.readFile(filePath));
+  const compacted = A.save(loadDocument(existing));
+
+  await writeFileAtomically(outputPath, compacted);
+  return { before: existing.length, after: compacted.length };
+}
+
+/**
+ * Write a file by writing a temporary file next to it and renaming that into
+ * place, so readers never see a partly written file
+ * @param filePath - Path to the file
+ * @param data - The new contents
+ */
+export async function writeFileAtomically(
+  filePath: string,
+  data: Uint8Array,
+): Promise<void> {
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  try {
+    await accessFile(filePath, async () => {
+      await Deno.writeFile(tempPath, data);
+      await Deno.rename(tempPath, filePath);
+    });
+  } catch (error) {
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
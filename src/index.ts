@@ -13,7 +13,130 @@ export {
   type ConversionOptions,
   jsonToAutomerge,
   jsonToRepoCompatible,
+  type JsonWithConflicts,
+  type JsonWithMeta,
   readAutomergeAsJson,
+  type ReadOptions,
+  type RepoCompatibilityResult,
+  type RepoCompatibleDocument,
+  type RepoCompatibleOptions,
   testRepoCompatibility,
+  updateAutomergeFromJson,
+  updateDocumentFromJson,
+  type UpdateOptions,
+  validateAutomergeBinary,
   writeJsonAsAutomerge,
 } from "./jsonAutomergeConverter.ts";
+export { type ParsedDocumentUrl, parseDocumentUrl } from "./automergeUrl.ts";
+export {
+  type Conflict,
+  CONFLICT_MARKER,
+  type ConflictingValue,
+  type ConflictMode,
+  findConflicts,
+  markConflicts,
+} from "./conflicts.ts";
+export { deriveActorId, hashAutomergeBinary } from "./deterministic.ts";
+export {
+  ActorIdError,
+  ConverterError,
+  describeError,
+  EmptyBinaryError,
+  type ErrorCode,
+  errorCode,
+  FileAccessError,
+  InvalidAutomergeBinaryError,
+  InvalidJsonError,
+  InvalidOptionError,
+  JsonPatchError,
+  JsonSyntaxError,
+  SchemaMismatchError,
+  UnrelatedDocumentsError,
+} from "./errors.ts";
+export {
+  type ChangeInfo,
+  type ChangeOp,
+  getHistory,
+  type HistoryOptions,
+} from "./history.ts";
+export {
+  type BinaryInspection,
+  type ChunkInfo,
+  type ChunkType,
+  inspectAutomergeBinary,
+  type InspectionError,
+  type InspectionErrorKind,
+} from "./inspect.ts";
+export {
+  appendJsonToAutomergeFile,
+  compactAutomergeFile,
+} from "./incremental.ts";
+export {
+  applyJsonPatch,
+  diffAsJsonPatch,
+  type JsonPatchOperation,
+} from "./jsonPatch.ts";
+export {
+  attachComments,
+  type CommentPlacement,
+  COMMENTS_FIELD,
+  detachComments,
+  type InputFormat,
+  type JsonComments,
+  type ParsedJsonText,
+  parseJsonText,
+  stringifyJsonc,
+} from "./jsonc.ts";
+export { mergeAutomerge, type MergeResult } from "./merge.ts";
+export {
+  type LargeIntegerHandling,
+  type NumberPolicy,
+  type NumberStorage,
+  parseLosslessJson,
+  stringifyLosslessJson,
+} from "./numbers.ts";
+export {
+  exportToRepoStorage,
+  importFromRepoStorage,
+  type RepoStorageExport,
+  type RepoStorageOptions,
+} from "./repoStorage.ts";
+export { resolveConflict, type ResolveResult } from "./resolve.ts";
+export {
+  type JsonSchema,
+  type JsonSchemaType,
+  type SchemaViolation,
+  validateAgainstSchema,
+} from "./schema.ts";
+export {
+  createDocumentHandler,
+  type DocumentHandlerOptions,
+  serveDocuments,
+  type ServeOptions,
+} from "./serve.ts";
+export {
+  createSyncOffer,
+  receiveSyncMessage,
+  type SyncOffer,
+  type SyncReply,
+} from "./sync.ts";
+export {
+  AutomergeDirectoryStorage,
+  type DirectoryStorageOptions,
+  startSyncServer,
+  type SyncedDocument,
+  type SyncServer,
+  type SyncServerOptions,
+} from "./syncServer.ts";
+export { type AutomergeValueType, type TypeMap } from "./typeMap.ts";
+export {
+  recordJsonFile,
+  type RecordOptions,
+  type RecordResult,
+  watchJsonFile,
+  type WatchOptions,
+} from "./watch.ts";
+export {
+  WebSocketClientAdapter,
+  WebSocketServerAdapter,
+} from "./websocketNetwork.ts";
@@ -0,0 +1,274 @@
+/**
+ * Detailed inspection of Automerge binaries
+ *
+ * An Automerge binary is a sequence of chunks. Each chunk starts with the
+ * magic bytes `85 6f 4a 83`, a 4-byte checksum (the start of the SHA-256 of
+ * the rest of the chunk), a chunk type byte and the LEB128-encoded length of
+ * the data that follows. Compressed change chunks hold a deflated change
+ * chunk, and their checksum is that of the uncompressed change.
+ */
+
+import * as A from "@automerge/automerge";
+
+const MAGIC_BYTES = [0x85, 0x6f, 0x4a, 0x83];
+const CHUNK_TYPES = ["document", "change", "compressed"] as const;
+
+/** Sync messages and encoded sync states start with these bytes instead */
+const OTHER_FORMATS: Record<number, string> = {
+  0x42: "an Automerge sync message",
+  0x43: "an encoded Automerge sync state",
+};
+
+export type ChunkType = typeof CHUNK_TYPES[number];
+
+export interface ChunkInfo {
+  /** Byte offset of the chunk in the binary */
+  offset: number;
+  /** The kind of chunk */
+  type: ChunkType;
+  /** Size of the chunk in bytes, including its header */
+  size: number;
+  /** Size of the decompressed change, for compressed chunks */
+  uncompressedSize?: number;
+}
+
+export type InspectionErrorKind =
+  | "empty"
+  | "invalid-magic"
+  | "truncated"
+  | "unknown-chunk-type"
+  | "checksum-mismatch"
+  | "decode";
+
+export interface InspectionError {
+  /** What is wrong with the binary */
+  kind: InspectionErrorKind;
+  /** Byte offset at which the problem was found */
+  offset: number;
+  /** Description of the problem, including any Automerge decode error */
+  message: string;
+}
+
+export interface BinaryInspection {
+  /** Whether the binary is a valid Automerge document */
+  valid: boolean;
+  /** Size of the binary in bytes */
+  size: number;
+  /** The chunks found, up to the first invalid one */
+  chunks: ChunkInfo[];
+  /** Number of changes in the document */
+  changes?: number;
+  /** Actors that made changes, sorted */
+  actors?: string[];
+  /** Heads of the document */
+  heads?: string[];
+  /** Maps, lists and text objects in the current version, with the root */
+  objects?: number;
+  /** Operations in all changes */
+  operations?: number;
+  /** Total size of all changes in the uncompressed change format */
+  uncompressedSize?: number;
+  /** Why the binary is invalid */
+  error?: InspectionError;
+}
+
+/**
+ * Inspect an Automerge binary, reporting its chunks and contents, or exactly
+ * where and why it cannot be read
+ * @param binary - The data to inspect
+ * @returns The inspection report
+ */
+export async function inspectAutomergeBinary(
+  binary: Uint8Array,
+): Promise<BinaryInspection> {
+  const report: BinaryInspection = {
+    valid: false,
+    size: binary.length,
+    chunks: [],
+  };
+  const invalid = (
+    kind: InspectionErrorKind,
+    offset: number,
+    message: string,
+  ) => ({ ...report, error: { kind, offset, message } });
+
+  if (binary.length === 0) {
+    return invalid("empty", 0, "Empty binary data");
+  }
+
+  let doc = A.init<unknown>();
+  let offset = 0;
+  while (offset < binary.length) {
+    const magic = binary.subarray(offset, offset + MAGIC_BYTES.length);
+    if (magic.length < MAGIC_BYTES.length || magic.some(isWrongMagic)) {
+      if (magic.every((byte, index) => byte === MAGIC_BYTES[index])) {
+        return invalid("truncated", offset, "Chunk header is truncated");
+      }
+      const other = offset === 0 ? OTHER_FORMATS[binary[0]] : undefined;
+      return invalid(
+        "invalid-magic",
+        offset,
+        `Expected the magic bytes ${
+          formatBytes(MAGIC_BYTES)
+        } at offset ${offset}, found ${formatBytes(magic)}` +
+          (other ? ` (this looks like ${other})` : ""),
+      );
+    }
+
+    const typeOffset = offset + 8;
+    const length = readUleb(binary, typeOffset + 1);
+    if (typeOffset >= binary.length || length === undefined) {
+      return invalid("truncated", offset, "Chunk header is truncated");
+    }
+    const type = CHUNK_TYPES[binary[typeOffset]];
+    if (type === undefined) {
+      return invalid(
+        "unknown-chunk-type",
+        typeOffset,
+        `Unknown chunk type ${
+          binary[typeOffset]
+        } (expected 0 for a document, 1 for a change or 2 for a compressed change)`,
+      );
+    }
+    const dataOffset = typeOffset + 1 + length.size;
+    const end = dataOffset + length.value;
+    if (end > binary.length) {
+      return invalid(
+        "truncated",
+        offset,
+        `The ${type} chunk at offset ${offset} is truncated: it needs ${length.value} bytes of data, but only ${
+          binary.length - dataOffset
+        } are left`,
+      );
+    }
+
+    const chunk = binary.subarray(offset, end);
+    const info: ChunkInfo = { offset, type, size: chunk.length };
+    let checked = binary.subarray(typeOffset, end);
+    if (type === "compressed") {
+      try {
+        const change = await inflate(binary.subarray(dataOffset, end));
+        info.uncompressedSize = change.length;
+        checked = new Uint8Array([1, ...encodeUleb(change.length), ...change]);
+      } catch (error) {
+        return invalid(
+          "decode",
+          dataOffset,
+          `Cannot decompress the change at offset ${offset}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+    const checksum = (await sha256(checked)).subarray(0, 4);
+    const expected = binary.subarray(offset + 4, offset + 8);
+    if (checksum.some((byte, index) => byte !== expected[index])) {
+      return invalid(
+        "checksum-mismatch",
+        offset + 4,
+        `Checksum mismatch in the ${type} chunk at offset ${offset}: expected ${
+          formatBytes(expected)
+        }, computed ${formatBytes(checksum)}`,
+      );
+    }
+
+    try {
+      doc = A.loadIncremental(doc, chunk);
+    } catch (error) {
+      return invalid(
+        "decode",
+        offset,
+        `Cannot decode the ${type} chunk at offset ${offset}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    report.chunks.push(info);
+    offset = end;
+  }
+
+  const changes = A.getAllChanges(doc);
+  const metas = A.getChangesMetaSince(doc, []);
+  return {
+    ...report,
+    valid: true,
+    changes: metas.length,
+    actors: [...new Set(metas.map((meta) => meta.actor))].sort(),
+    heads: A.getHeads(doc),
+    objects: countObjects(doc),
+    operations: A.stats(doc).numOps,
+    uncompressedSize: changes.reduce((size, change) => size + change.length, 0),
+  };
+}
+
+function isWrongMagic(byte: number, index: number): boolean {
+  return byte !== MAGIC_BYTES[index];
+}
+
+/**
+ * Read an unsigned LEB128 number, or undefined if the data ends before it does
+ */
+function readUleb(
+  data: Uint8Array,
+  offset: number,
+): { value: number; size: number } | undefined {
+  let value = 0;
+  for (let index = offset, scale = 1; index < data.length; index++) {
+    value += (data[index] & 0x7f) * scale;
+    if ((data[index] & 0x80) === 0) {
+      return { value, size: index - offset + 1 };
+    }
+    scale *= 128;
+  }
+  return undefined;
+}
+
+function encodeUleb(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    const byte = value % 128;
+    value = Math.floor(value / 128);
+    bytes.push(value > 0 ? byte | 0x80 : byte);
+  } while (value > 0);
+  return bytes;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", data as Uint8Array<ArrayBuffer>),
+  );
+}
+
+function formatBytes(bytes: ArrayLike<number>): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join(" ");
+}
+
+/**
+ * Count the maps, lists and text objects in a document
+ */
+function countObjects(value: unknown): number {
+  if (typeof value === "string") {
+    // Strings are collaborative text objects, unlike immutable strings
+    return 1;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((count, item) => count + countObjects(item), 1);
+  }
+  if (
+    typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.values(value).reduce(
+      (count: number, item) => count + countObjects(item),
+      1,
+    );
+  }
+  return 0;
+}
@@ -3,13 +3,160 @@
  */
 
 import * as A from "@automerge/automerge";
-import { Repo } from "@automerge/automerge-repo";
+import {
+  type AutomergeUrl,
+  type DocumentId,
+  Repo,
+  stringifyAutomergeUrl,
+} from "@automerge/automerge-repo";
+import { resolveDocumentId } from "./automergeUrl.ts";
+import {
+  type Conflict,
+  CONFLICT_MODES,
+  type ConflictMode,
+  findConflicts,
+  markConflicts,
+} from "./conflicts.ts";
+import {
+  deriveActorId,
+  DETERMINISTIC_TIME,
+  sortKeys,
+} from "./deterministic.ts";
+import {
+  accessFile,
+  ActorIdError,
+  EmptyBinaryError,
+  InvalidAutomergeBinaryError,
+  InvalidJsonError,
+  InvalidOptionError,
+} from "./errors.ts";
+import {
+  decodeExtendedJson,
+  encodeExtendedJson,
+  plainJsonAt,
+} from "./extendedJson.ts";
+import { actorsAt, assertKnownHeads, headsBefore } from "./heads.ts";
+import { MemoryStorageAdapter } from "./memoryStorage.ts";
+import { applyNumberPolicy, type NumberPolicy } from "./numbers.ts";
+import {
+  reconcileDoc,
+  type ReconcileOptions,
+  stableStringify,
+} from "./reconcile.ts";
+import { assertMatchesSchema, type JsonSchema } from "./schema.ts";
+import {
+  applyTypeMap,
+  compileTypeMap,
+  toPlainJson,
+  type TypeMap,
+} from "./typeMap.ts";
 
 export interface ConversionOptions {
   /** Actor ID for the automerge document */
   actor?: string;
   /** Whether to validate JSON before conversion */
   validateJson?: boolean;
+  /**
+   * Automerge types (`text`, `counter`, `immutable`) for the values at
+   * matching JSON Pointer or glob-style paths, e.g. `{ "/visits": "counter" }`
+   */
+  typeMap?: TypeMap;
+  /**
+   * Use lossless extended JSON, where timestamps, bytes, counters, immutable
+   * strings and number types are written as tagged objects like
+   * `{"$counter": 5}`
+   */
+  extended?: boolean;
+  /**
+   * JSON Schema (a practical subset of draft 2020-12) the JSON must match,
+   * checked before writing a document and after reading one
+   */
+  schema?: JsonSchema;
+  /**
+   * How to store numbers: what to do with integers beyond 2^53 and non-finite
+   * values, and which paths hold integers or floats
+   */
+  numbers?: NumberPolicy;
+  /** Commit message for the generated change */
+  message?: string;
+  /**
+   * Timestamp for the generated change, as a Date or in seconds since the
+   * Unix epoch (defaults to the current time). Numbers are seconds, not the
+   * milliseconds of `Date.now()`.
+   */
+  time?: Date | number;
+  /**
+   * Produce byte-identical output for identical input: the actor ID is derived
+   * from `seed` or the JSON, unless `actor` is given, and the timestamp is the
+   * Unix epoch, unless `time` is given
+   */
+  deterministic?: boolean;
+  /** Seed of the actor ID in deterministic mode */
+  seed?: string;
+}
+
+export interface UpdateOptions extends ConversionOptions, ReconcileOptions {}
+
+export interface ReadOptions extends ConversionOptions {
+  /** Read the document as of these heads (change hashes) */
+  heads?: A.Heads;
+  /** Read the document as it was before this point in time */
+  before?: Date | string;
+  /** Return a `{ heads, actors, doc }` envelope instead of the bare JSON */
+  withMeta?: boolean;
+  /**
+   * Report concurrently written values: `list` returns a `{ doc, conflicts }`
+   * envelope (or adds `conflicts` to the `withMeta` one), `markers` replaces
+   * each conflicted value with a `{"$conflict": [...]}` marker
+   */
+  conflicts?: ConflictMode;
+}
+
+export interface RepoCompatibleOptions extends ConversionOptions {
+  /** Document ID or `automerge:` URL to use instead of a new random one */
+  documentId?: string;
+}
+
+export interface RepoCompatibleDocument {
+  /** The Automerge binary, for `repo.import(binary, { docId: documentId })` */
+  binary: Uint8Array;
+  /** The bs58check-encoded document ID, to pass to `repo.import()` */
+  documentId: DocumentId;
+  /** The `automerge:` URL of the document once imported with `documentId` */
+  url: AutomergeUrl;
+}
+
+export interface RepoCompatibilityResult {
+  /** Whether every check passed */
+  compatible: boolean;
+  /** Whether the imported document has the heads of the binary */
+  headsMatch: boolean;
+  /** Whether the imported document has the content of the binary */
+  contentMatches: boolean;
+  /** Whether `repo.export()` gives back the bytes `A.save()` produces */
+  exportMatches: boolean;
+  /** What went wrong, for each failed check */
+  problems: string[];
+}
+
+/** The envelope returned by `automergeToJson` with the `withMeta` option */
+export interface JsonWithMeta {
+  /** Heads of the exported version */
+  heads: A.Heads;
+  /** Actors whose changes are part of the exported version */
+  actors: string[];
+  /** The JSON content of the exported version */
+  doc: unknown;
+  /** The conflicts of the exported version, with the `conflicts: "list"` option */
+  conflicts?: Conflict[];
+}
+
+/** The envelope returned by `automergeToJson` with `conflicts: "list"` */
+export interface JsonWithConflicts {
+  /** The JSON content of the document */
+  doc: unknown;
+  /** Every key and list element with concurrently written values */
+  conflicts: Conflict[];
 }
 
 /**
@@ -23,30 +170,175 @@ export function jsonToAutomerge(
   options: ConversionOptions = {},
 ): Uint8Array {
   if (options.validateJson && !isValidJsonObject(json)) {
-    throw new Error("Invalid JSON object: must be a plain object or array");
+    throw new InvalidJsonError(
+      "Invalid JSON object: must be a plain object or array",
+    );
+  }
+  // An Automerge document is a map: other roots would be dropped silently
+  if (typeof json !== "object" || json === null) {
+    throw new InvalidJsonError(
+      `Invalid JSON object: the root must be an object or array, not ${
+        json === null ? "null" : typeof json
+      }`,
+    );
   }
 
-  const doc = A.from(json as Record<string, unknown>, options.actor);
+  const prepared = prepareJson(json, options);
+  const value =
+    (options.deterministic ? sortKeys(prepared) : prepared) as Record<
+      string,
+      unknown
+    >;
+  const doc = A.change(
+    A.init<Record<string, unknown>>(changeActor(json, options)),
+    changeOptions(options),
+    (d) => {
+      Object.assign(d, value);
+    },
+  );
   return A.save(doc);
 }
 
+/**
+ * Update an existing Automerge document to match a new JSON version
+ *
+ * Only the changed keys, array elements and text are written, as a single
+ * change on top of the loaded document, so history is kept and the result
+ * can be merged with other copies of the original.
+ * @param binary - The Automerge binary data of the existing document
+ * @param json - The new JSON version of the document
+ * @param options - Optional conversion and array matching settings
+ * @returns Uint8Array containing the updated Automerge binary
+ */
+export function updateAutomergeFromJson(
+  binary: Uint8Array,
+  json: unknown,
+  options: UpdateOptions = {},
+): Uint8Array {
+  const doc = loadDocument<Record<string, unknown>>(binary, {
+    ...options,
+    actor: changeActor(json, options),
+  });
+  return A.save(updateDocumentFromJson(doc, json, options));
+}
+
+/**
+ * Apply a new JSON version to a loaded document as a single change
+ * @param doc - The document to update
+ * @param json - The new JSON version of the document
+ * @param options - Optional conversion and array matching settings
+ * @returns The updated document (the same document if nothing changed)
+ */
+export function updateDocumentFromJson(
+  doc: A.Doc<Record<string, unknown>>,
+  json: unknown,
+  options: UpdateOptions = {},
+): A.Doc<Record<string, unknown>> {
+  if (options.validateJson && !isValidJsonObject(json)) {
+    throw new InvalidJsonError(
+      "Invalid JSON object: must be a plain object or array",
+    );
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new InvalidJsonError(
+      "Invalid JSON object: the root must be a plain object to update a document",
+    );
+  }
+
+  const next = prepareJson(json, { ...options, typeMap: undefined });
+  return A.change(doc, changeOptions(options), (d) => {
+    reconcileDoc(d, doc, next as Record<string, unknown>, options);
+  });
+}
+
 /**
  * Convert Automerge binary format to JSON object
+ *
+ * Counters and immutable strings are returned as plain numbers and strings,
+ * unless the `extended` option asks for lossless extended JSON. The `heads`
+ * and `before` options read an earlier version of the document, and the
+ * `conflicts` option reports the values that lost to concurrent edits.
  * @param binary - The Automerge binary data
- * @param options - Optional conversion settings
- * @returns The JSON object representation
+ * @param options - Optional conversion and version settings
+ * @returns The JSON object representation, or a `JsonWithMeta` or
+ *   `JsonWithConflicts` envelope
  */
 export function automergeToJson(
   binary: Uint8Array,
-  options: ConversionOptions = {},
+  options: ReadOptions = {},
 ): unknown {
+  if (
+    options.conflicts !== undefined &&
+    !CONFLICT_MODES.includes(options.conflicts)
+  ) {
+    throw new InvalidOptionError(
+      `Invalid conflicts mode "${options.conflicts}" (expected ${
+        CONFLICT_MODES.join(", ")
+      })`,
+    );
+  }
+
+  const doc = loadDocument(binary, options);
+  const heads = resolveHeads(doc, options);
+  let json = options.extended
+    ? encodeExtendedJson(doc, heads)
+    : heads
+    ? plainJsonAt(doc, heads)
+    : toPlainJson(doc);
+  if (options.schema !== undefined) {
+    assertMatchesSchema(
+      options.extended ? (heads ? plainJsonAt(doc, heads) : doc) : json,
+      options.schema,
+      "Document",
+    );
+  }
+
+  const conflicts = options.conflicts === undefined
+    ? []
+    : findConflicts(doc, heads, options.extended);
+  if (options.conflicts === "markers") {
+    json = markConflicts(json, conflicts, options.extended);
+  }
+  const listed = options.conflicts === "list";
+
+  if (!options.withMeta) {
+    return listed ? { doc: json, conflicts } satisfies JsonWithConflicts : json;
+  }
+  const exportedHeads = heads ?? A.getHeads(doc);
+  return {
+    heads: exportedHeads,
+    actors: actorsAt(doc, exportedHeads),
+    doc: json,
+    ...(listed ? { conflicts } : {}),
+  } satisfies JsonWithMeta;
+}
+
+/**
+ * Load an Automerge document from binary data
+ * @param binary - The Automerge binary data
+ * @param options - Optional conversion settings
+ * @returns The loaded document
+ */
+export function loadDocument<T = unknown>(
+  binary: Uint8Array,
+  options: ConversionOptions = {},
+): A.Doc<T> {
   // Reject empty binary
   if (binary.length === 0) {
-    throw new Error("Empty binary data is not valid Automerge format");
+    throw new EmptyBinaryError();
   }
 
-  const doc = A.load(binary, options.actor);
-  return doc;
+  const actor = checkActorId(options.actor);
+  try {
+    return A.load<T>(binary, actor);
+  } catch (error) {
+    throw new InvalidAutomergeBinaryError(
+      `Invalid Automerge binary: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
 }
 
 /**
@@ -61,7 +353,7 @@ export async function writeJsonAsAutomerge(
   options: ConversionOptions = {},
 ): Promise<void> {
   const binary = jsonToAutomerge(json, options);
-  await Deno.writeFile(filePath, binary);
+  await accessFile(filePath, () => Deno.writeFile(filePath, binary));
 }
 
 /**
@@ -72,24 +364,33 @@ export async function writeJsonAsAutomerge(
  */
 export async function readAutomergeAsJson(
   filePath: string,
-  options: ConversionOptions = {},
+  options: ReadOptions = {},
 ): Promise<unknown> {
-  const binary = await Deno.readFile(filePath);
+  const binary = await accessFile(filePath, () => Deno.readFile(filePath));
   return automergeToJson(binary, options);
 }
 
 /**
- * Create a repo-compatible binary that can be imported with repo.import()
+ * Create a repo-compatible binary that can be imported with repo.import(),
+ * together with a document ID and `automerge:` URL for it. The URL only
+ * points at the document when the ID is passed to the import, as
+ * `repo.import(binary, { docId: documentId })`; without it the repo picks a
+ * new random ID.
  * @param json - The JSON object to convert
- * @param options - Optional conversion settings
- * @returns Uint8Array that can be used with repo.import()
+ * @param options - Optional conversion settings and a fixed document ID
+ * @returns The binary, document ID and URL
  */
 export function jsonToRepoCompatible(
   json: unknown,
-  options: ConversionOptions = {},
-): Uint8Array {
-  // repo.import() expects the same format as A.save() produces
-  return jsonToAutomerge(json, options);
+  options: RepoCompatibleOptions = {},
+): RepoCompatibleDocument {
+  const documentId = resolveDocumentId(options.documentId);
+  return {
+    // repo.import() expects the same format as A.save() produces
+    binary: jsonToAutomerge(json, options),
+    documentId,
+    url: stringifyAutomergeUrl({ documentId }),
+  };
 }
 
 /**
@@ -114,50 +415,176 @@ export function validateAutomergeBinary(binary: Uint8Array): boolean {
 }
 
 /**
- * Test if a repo can successfully import the binary data
- * NOTE: This function creates timer leaks in Deno tests due to internal DocHandle throttling
- * Use validateAutomergeBinary() for format validation without timers
+ * Test that automerge-repo imports the binary as the same document, using a
+ * repo with in-memory storage that is shut down afterwards
+ *
+ * Checks that the imported document has the heads and content of the binary,
+ * and that `repo.export()` gives back the same bytes as `A.save()`.
  * @param binary - The binary data to test
- * @returns Promise<boolean> indicating if import was successful
+ * @returns Which checks passed, and what went wrong otherwise
  */
 export async function testRepoCompatibility(
   binary: Uint8Array,
-): Promise<boolean> {
-  let repo: Repo | null = null;
-  let handle = null;
+): Promise<RepoCompatibilityResult> {
+  const result: RepoCompatibilityResult = {
+    compatible: false,
+    headsMatch: false,
+    contentMatches: false,
+    exportMatches: false,
+    problems: [],
+  };
+
+  let expected: A.Doc<unknown>;
   try {
-    repo = new Repo({
-      storage: undefined,
-      network: [],
-    });
+    expected = loadDocument(binary);
+  } catch (error) {
+    result.problems.push(
+      `The binary cannot be loaded: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return result;
+  }
 
-    handle = repo.import(binary);
-    const result = handle.isReady();
+  const repo = new Repo({ storage: new MemoryStorageAdapter(), network: [] });
+  try {
+    const handle = repo.import<unknown>(binary);
+    await handle.whenReady();
+    const imported = handle.doc();
 
-    // Try to unload the handle immediately
-    if (handle && typeof handle.unload === "function") {
-      handle.unload();
+    const heads = A.getHeads(imported);
+    const expectedHeads = A.getHeads(expected);
+    result.headsMatch = heads.join() === expectedHeads.join();
+    if (!result.headsMatch) {
+      result.problems.push(
+        `The imported document has the heads ${heads.join(", ")} instead of ${
+          expectedHeads.join(", ")
+        }`,
+      );
     }
 
-    return result;
-  } catch {
-    return false;
-  } finally {
-    if (handle && typeof handle.unload === "function") {
-      try {
-        handle.unload();
-      } catch {
-        // Ignore cleanup errors
-      }
+    result.contentMatches = stableStringify(encodeExtendedJson(imported)) ===
+      stableStringify(encodeExtendedJson(expected));
+    if (!result.contentMatches) {
+      result.problems.push(
+        "The content of the imported document differs from the binary",
+      );
     }
-    if (repo) {
-      try {
-        await repo.shutdown();
-      } catch {
-        // Ignore cleanup errors
-      }
+
+    await repo.flush();
+    const exported = await repo.export(handle.documentId);
+    const saved = A.save(expected);
+    result.exportMatches = exported !== undefined &&
+      exported.length === saved.length &&
+      exported.every((byte, index) => byte === saved[index]);
+    if (!result.exportMatches) {
+      result.problems.push(
+        exported === undefined
+          ? "repo.export() did not return the document"
+          : "repo.export() returned different bytes than A.save()",
+      );
     }
+  } catch (error) {
+    result.problems.push(
+      `The repo could not import the binary: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  } finally {
+    await repo.shutdown();
+  }
+
+  result.compatible = result.problems.length === 0;
+  return result;
+}
+
+/**
+ * The actor of a change: the `actor` option, or in deterministic mode one
+ * derived from the seed or the JSON
+ */
+function changeActor(
+  json: unknown,
+  options: ConversionOptions,
+): string | undefined {
+  if (options.actor === undefined && options.deterministic) {
+    return deriveActorId(options.seed ?? stableStringify(json));
+  }
+  return checkActorId(options.actor);
+}
+
+/**
+ * Check that an actor ID is an even number of hex digits, as Automerge needs
+ * @param actor - The actor ID, if any
+ * @returns The same actor ID
+ */
+export function checkActorId(actor?: string): string | undefined {
+  if (actor !== undefined && !/^(?:[0-9a-fA-F]{2})*$/.test(actor)) {
+    throw new ActorIdError(actor);
+  }
+  return actor;
+}
+
+/**
+ * Build the Automerge change options from the `message` and `time` options
+ */
+export function changeOptions<T>(
+  options: ConversionOptions,
+): A.ChangeOptions<T> {
+  const { message } = options;
+  const time = options.time ??
+    (options.deterministic ? DETERMINISTIC_TIME : undefined);
+  if (time === undefined) {
+    return { message };
+  }
+
+  const seconds = time instanceof Date ? time.getTime() / 1000 : time;
+  if (!Number.isFinite(seconds)) {
+    throw new InvalidOptionError(`Invalid change time: ${time}`);
+  }
+  return { message, time: Math.floor(seconds) };
+}
+
+/**
+ * Resolve the version selected by the `heads` or `before` options
+ */
+function resolveHeads(
+  doc: A.Doc<unknown>,
+  options: ReadOptions,
+): A.Heads | undefined {
+  if (options.heads && options.before !== undefined) {
+    throw new InvalidOptionError(
+      "Use either the heads or the before option, not both",
+    );
+  }
+  if (options.heads) {
+    assertKnownHeads(doc, options.heads);
+    return options.heads;
+  }
+  if (options.before !== undefined) {
+    const time = new Date(options.before);
+    if (Number.isNaN(time.getTime())) {
+      throw new InvalidOptionError(
+        `Invalid date for the before option: ${options.before}`,
+      );
+    }
+    return headsBefore(doc, time);
+  }
+  return undefined;
+}
+
+/**
+ * Turn JSON into the values to write to a document, decoding extended JSON
+ * tags, checking the schema and applying the type map and number policy
+ */
+function prepareJson(json: unknown, options: ConversionOptions): unknown {
+  const value = options.extended ? decodeExtendedJson(json) : json;
+  if (options.schema !== undefined) {
+    assertMatchesSchema(value, options.schema);
   }
+  const typed = options.typeMap
+    ? applyTypeMap(value, compileTypeMap(options.typeMap))
+    : value;
+  return applyNumberPolicy(typed, options.numbers);
 }
 
 /**
@@ -169,9 +596,10 @@ function isValidJsonObject(value: unknown): boolean {
     return false;
   }
 
+  // Big integers are JSON numbers read with `parseLosslessJson`
   if (
     value === null || typeof value === "boolean" || typeof value === "number" ||
-    typeof value === "string"
+    typeof value === "bigint" || typeof value === "string"
   ) {
     return true;
   }
@@ -0,0 +1,458 @@
+/**
+ * Converting between JSON Patch (RFC 6902) and Automerge changes
+ *
+ * All operations of an applied patch become a single Automerge change. Array
+ * operations insert and delete elements instead of rewriting the list, so
+ * concurrent edits to other elements still merge.
+ */
+
+import * as A from "@automerge/automerge";
+import {
+  changeOptions,
+  type ConversionOptions,
+  loadDocument,
+} from "./jsonAutomergeConverter.ts";
+import { InvalidJsonError, JsonPatchError } from "./errors.ts";
+import { decodeExtendedJson, plainJsonAt } from "./extendedJson.ts";
+import { assertKnownHeads } from "./heads.ts";
+import { stableStringify } from "./reconcile.ts";
+import { assertMatchesSchema } from "./schema.ts";
+import { formatPointer, parsePointer } from "./jsonPointer.ts";
+import { applyNumberPolicy } from "./numbers.ts";
+import { applyTypeMap, compileTypeMap, toPlainJson } from "./typeMap.ts";
+
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+type Container = Record<string, unknown> | unknown[];
+
+interface Location {
+  container: Container;
+  key: string | number;
+  path: A.Prop[];
+}
+
+const INDEX_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+/**
+ * Apply a JSON Patch to an Automerge document as a single change
+ * @param binary - The Automerge binary data
+ * @param patch - The JSON Patch operations
+ * @param options - Optional conversion settings; `extended`, `typeMap` and
+ *   `numbers` apply to the values of the operations
+ * @returns The updated Automerge binary
+ */
+export function applyJsonPatch(
+  binary: Uint8Array,
+  patch: JsonPatchOperation[],
+  options: ConversionOptions = {},
+): Uint8Array {
+  if (!Array.isArray(patch)) {
+    throw new InvalidJsonError(
+      "Invalid JSON Patch: expected an array of operations",
+    );
+  }
+
+  const rules = compileTypeMap(options.typeMap ?? {});
+  const prepare = (value: unknown, path: A.Prop[]) => {
+    const decoded = options.extended ? decodeExtendedJson(value, path) : value;
+    return applyNumberPolicy(
+      applyTypeMap(decoded, rules, path),
+      options.numbers,
+      path,
+    );
+  };
+
+  const doc = loadDocument<Record<string, unknown>>(binary, options);
+  const updated = A.change(doc, changeOptions(options), (d) => {
+    patch.forEach((operation, index) =>
+      applyOperation(d, operation, index, prepare)
+    );
+  });
+  if (options.schema !== undefined) {
+    assertMatchesSchema(updated, options.schema, "Patched document");
+  }
+  return A.save(updated);
+}
+
+/**
+ * Describe the changes between two versions of a document as JSON Patch
+ * operations that turn the plain JSON of the first version into the second.
+ * Text edits and counter increments become `replace` operations with the new
+ * value, since JSON Patch has no splice or increment.
+ * @param binary - The Automerge binary data
+ * @param fromHeads - The heads of the earlier version (`[]` for the empty
+ *   document)
+ * @param toHeads - The heads of the later version (defaults to the latest)
+ * @param options - Optional conversion settings
+ * @returns The JSON Patch operations
+ */
+export function diffAsJsonPatch(
+  binary: Uint8Array,
+  fromHeads: A.Heads,
+  toHeads?: A.Heads,
+  options: ConversionOptions = {},
+): JsonPatchOperation[] {
+  const doc = loadDocument(binary, options);
+  const to = toHeads ?? A.getHeads(doc);
+  assertKnownHeads(doc, fromHeads);
+  assertKnownHeads(doc, to);
+
+  // Replay the Automerge patches on a plain copy of the earlier version, to
+  // tell additions from replacements and to compute new text and counters
+  const state = plainJsonAt(doc, fromHeads) as Container;
+  const operations: JsonPatchOperation[] = [];
+  const emit = (operation: JsonPatchOperation) => {
+    const previous = operations[operations.length - 1];
+    if (
+      operation.op === "replace" && previous?.path === operation.path &&
+      (previous.op === "add" || previous.op === "replace")
+    ) {
+      previous.value = operation.value;
+    } else {
+      operations.push(operation);
+    }
+  };
+
+  for (const patch of A.diff(doc, fromHeads, to)) {
+    const parentPath = patch.path.slice(0, -1);
+    const key = patch.path[patch.path.length - 1];
+    const parent = resolvePath(state, parentPath);
+
+    if (typeof parent === "string") {
+      // Character-level edit of a text value
+      const index = key as number;
+      const text = patch.action === "splice"
+        ? parent.slice(0, index) + patch.value + parent.slice(index)
+        : patch.action === "del"
+        ? parent.slice(0, index) + parent.slice(index + (patch.length ?? 1))
+        : parent;
+      const textKey = parentPath[parentPath.length - 1];
+      (resolvePath(state, parentPath.slice(0, -1)) as Record<A.Prop, unknown>)[
+        textKey
+      ] = text;
+      emit({ op: "replace", path: formatPointer(parentPath), value: text });
+      continue;
+    }
+
+    const container = parent as Record<A.Prop, unknown>;
+    const path = formatPointer(patch.path);
+    switch (patch.action) {
+      case "put": {
+        const value = toPlainJson(patch.value);
+        const exists = Array.isArray(parent)
+          ? (key as number) < parent.length
+          : Object.hasOwn(container, key);
+        container[key] = value;
+        emit({ op: exists ? "replace" : "add", path, value: clone(value) });
+        break;
+      }
+      case "insert": {
+        const values = patch.values.map(toPlainJson);
+        (parent as unknown[]).splice(key as number, 0, ...values);
+        values.forEach((value, offset) =>
+          emit({
+            op: "add",
+            path: formatPointer([...parentPath, (key as number) + offset]),
+            value: clone(value),
+          })
+        );
+        break;
+      }
+      case "del":
+        if (Array.isArray(parent)) {
+          const count = patch.length ?? 1;
+          parent.splice(key as number, count);
+          for (let i = 0; i < count; i++) {
+            emit({ op: "remove", path });
+          }
+        } else {
+          delete container[key];
+          emit({ op: "remove", path });
+        }
+        break;
+      case "inc": {
+        const value = (container[key] as number) + patch.value;
+        container[key] = value;
+        emit({ op: "replace", path, value });
+        break;
+      }
+        // Marks and conflict notifications don't change the JSON
+    }
+  }
+
+  return operations;
+}
+
+function applyOperation(
+  doc: Record<string, unknown>,
+  operation: JsonPatchOperation,
+  index: number,
+  prepare: (value: unknown, path: A.Prop[]) => unknown,
+): void {
+  const fail = (reason: string): never => {
+    throw new JsonPatchError(
+      `Invalid JSON Patch operation ${index} (${operation.op} ${
+        JSON.stringify(operation.path)
+      }): ${reason}`,
+      String(operation.path),
+      index,
+    );
+  };
+  if (typeof operation !== "object" || operation === null) {
+    throw new JsonPatchError(
+      `Invalid JSON Patch operation ${index}: expected an object`,
+      "",
+      index,
+    );
+  }
+  if (typeof operation.path !== "string") {
+    fail("path must be a string");
+  }
+  const parse = (pointer: string) => {
+    try {
+      return parsePointer(pointer);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+  };
+  const segments = parse(operation.path);
+
+  switch (operation.op) {
+    case "add":
+    case "replace": {
+      if (!("value" in operation) || operation.value === undefined) {
+        fail("value is required");
+      }
+      if (segments.length === 0) {
+        replaceRoot(doc, prepare(operation.value, []), fail);
+        return;
+      }
+      const target = locate(doc, segments, operation.op === "add", fail);
+      insertOrSet(
+        target,
+        prepare(operation.value, target.path),
+        operation.op === "add",
+      );
+      return;
+    }
+    case "remove": {
+      if (segments.length === 0) {
+        fail("cannot remove the document root");
+      }
+      remove(locate(doc, segments, false, fail));
+      return;
+    }
+    case "move":
+    case "copy": {
+      if (typeof operation.from !== "string") {
+        fail("from must be a string");
+      }
+      const from = parse(operation.from);
+      if (operation.op === "move") {
+        if (operation.from === operation.path) {
+          return;
+        }
+        if (operation.path.startsWith(operation.from + "/") || !from.length) {
+          fail(`cannot move ${operation.from} into itself`);
+        }
+      }
+      const value = cloneValue(valueAt(doc, from, fail));
+      if (operation.op === "move") {
+        remove(locate(doc, from, false, fail));
+      }
+      if (segments.length === 0) {
+        replaceRoot(doc, value, fail);
+        return;
+      }
+      insertOrSet(locate(doc, segments, true, fail), value, true);
+      return;
+    }
+    case "test": {
+      const actual = toPlainJson(cloneValue(valueAt(doc, segments, fail)));
+      const expected = toPlainJson(
+        prepare(operation.value, resolveIndices(doc, segments)),
+      );
+      if (stableStringify(actual) !== stableStringify(expected)) {
+        throw new JsonPatchError(
+          `JSON Patch test failed at ${
+            JSON.stringify(operation.path)
+          } (operation ${index}): expected ${JSON.stringify(expected)}, found ${
+            JSON.stringify(actual)
+          }`,
+          operation.path,
+          index,
+        );
+      }
+      return;
+    }
+    default:
+      fail(
+        "op must be one of add, remove, replace, move, copy or test",
+      );
+  }
+}
+
+/**
+ * Find the container and key addressed by a path. The parent must exist; the
+ * key itself must exist unless `adding`, where `-` and the array length
+ * append to an array.
+ */
+function locate(
+  doc: Record<string, unknown>,
+  segments: string[],
+  adding: boolean,
+  fail: (reason: string) => never,
+): Location {
+  const parentPath = segments.slice(0, -1);
+  const container = valueAt(doc, parentPath, fail);
+  const segment = segments[segments.length - 1];
+  const path = resolveIndices(doc, parentPath);
+
+  if (Array.isArray(container)) {
+    if (adding && segment === "-") {
+      return {
+        container,
+        key: container.length,
+        path: [...path, container.length],
+      };
+    }
+    const last = adding ? container.length : container.length - 1;
+    if (!INDEX_PATTERN.test(segment) || Number(segment) > last) {
+      fail(
+        `${
+          formatPointer(segments)
+        } is not a valid index in an array of ${container.length} elements`,
+      );
+    }
+    return {
+      container,
+      key: Number(segment),
+      path: [...path, Number(segment)],
+    };
+  }
+  if (typeof container !== "object" || container === null) {
+    fail(`${formatPointer(parentPath)} is not an object or array`);
+  }
+  if (!adding && !Object.hasOwn(container as object, segment)) {
+    fail(`${formatPointer(segments)} does not exist`);
+  }
+  return {
+    container: container as Record<string, unknown>,
+    key: segment,
+    path: [...path, segment],
+  };
+}
+
+function valueAt(
+  doc: Record<string, unknown>,
+  segments: string[],
+  fail: (reason: string) => never,
+): unknown {
+  let node: unknown = doc;
+  segments.forEach((segment, index) => {
+    const found = Array.isArray(node)
+      ? INDEX_PATTERN.test(segment) && Number(segment) < node.length
+      : typeof node === "object" && node !== null &&
+        Object.hasOwn(node, segment);
+    if (!found) {
+      fail(`${formatPointer(segments.slice(0, index + 1))} does not exist`);
+    }
+    node = (node as Record<string, unknown>)[segment];
+  });
+  return node;
+}
+
+/**
+ * Turn the array index segments of a path into numbers, as used by type maps
+ */
+function resolveIndices(
+  doc: Record<string, unknown>,
+  segments: string[],
+): A.Prop[] {
+  let node: unknown = doc;
+  return segments.map((segment) => {
+    const key = Array.isArray(node) ? Number(segment) : segment;
+    node = (node as Record<A.Prop, unknown>)[key];
+    return key;
+  });
+}
+
+function insertOrSet(target: Location, value: unknown, adding: boolean): void {
+  const { container, key } = target;
+  if (Array.isArray(container) && adding) {
+    container.splice(key as number, 0, value);
+  } else {
+    (container as Record<A.Prop, unknown>)[key] = value;
+  }
+}
+
+function remove({ container, key }: Location): void {
+  if (Array.isArray(container)) {
+    container.splice(key as number, 1);
+  } else {
+    delete container[key];
+  }
+}
+
+function replaceRoot(
+  doc: Record<string, unknown>,
+  value: unknown,
+  fail: (reason: string) => never,
+): void {
+  if (
+    typeof value !== "object" || value === null || Array.isArray(value) ||
+    Object.getPrototypeOf(value) !== Object.prototype
+  ) {
+    fail("the document root must be an object");
+  }
+  for (const key of Object.keys(doc)) {
+    delete doc[key];
+  }
+  Object.assign(doc, value);
+}
+
+function resolvePath(root: unknown, path: A.Prop[]): unknown {
+  return path.reduce<unknown>(
+    (node, key) => (node as Record<A.Prop, unknown>)[key],
+    root,
+  );
+}
+
+function clone(value: unknown): unknown {
+  return typeof value === "object" && value !== null
+    ? structuredClone(value)
+    : value;
+}
+
+/**
+ * Copy a value read from a change proxy so it can be written elsewhere or
+ * compared
+ */
+function cloneValue(value: unknown): unknown {
+  // List proxies pass the counter and immutable string checks, so test for
+  // arrays first
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (A.isCounter(value)) {
+    return new A.Counter((value as A.Counter).value);
+  }
+  if (A.isImmutableString(value)) {
+    return new A.ImmutableString((value as A.ImmutableString).val);
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof Uint8Array) {
+    return value.slice();
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneValue(item)]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,65 @@
+/**
+ * JSON Pointer (RFC 6901) helpers and glob-style path patterns
+ */
+
+import { InvalidOptionError } from "./errors.ts";
+
+/**
+ * Parse a JSON Pointer into its unescaped path segments
+ * @param pointer - A JSON Pointer such as `/users/0/name`, or `""` for the root
+ * @returns The path segments
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new InvalidOptionError(
+      `Invalid JSON Pointer "${pointer}": must start with "/"`,
+    );
+  }
+  return pointer.slice(1).split("/").map((segment) =>
+    segment.replace(/~1/g, "/").replace(/~0/g, "~")
+  );
+}
+
+/**
+ * Format path segments as a JSON Pointer
+ * @param path - The path segments (object keys or array indices)
+ * @returns The escaped JSON Pointer
+ */
+export function formatPointer(path: readonly (string | number)[]): string {
+  return path.map((segment) =>
+    "/" + String(segment).replace(/~/g, "~0").replace(/\//g, "~1")
+  ).join("");
+}
+
+/**
+ * Check whether a path matches a glob-style pointer pattern, where `*`
+ * matches exactly one segment and `**` matches any number of segments
+ * @param pattern - The parsed pattern segments
+ * @param path - The path segments to test
+ * @returns boolean indicating if the path matches
+ */
+export function matchesPattern(
+  pattern: readonly string[],
+  path: readonly (string | number)[],
+): boolean {
+  if (pattern.length === 0) {
+    return path.length === 0;
+  }
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let skip = 0; skip <= path.length; skip++) {
+      if (matchesPattern(rest, path.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+  if (path.length === 0) {
+    return false;
+  }
+  return (head === "*" || head === String(path[0])) &&
+    matchesPattern(rest, path.slice(1));
+}
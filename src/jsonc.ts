@@ -0,0 +1,504 @@
+/**
+ * Tolerant parsing of JSON with comments (JSONC) and JSON5
+ *
+ * JSONC allows `//` and `/* *\/` comments and trailing commas. JSON5 also
+ * allows unquoted keys, single-quoted strings, hexadecimal numbers, leading or
+ * trailing decimal points, a leading `+`, `Infinity` and `NaN`. Integers beyond
+ * 2^53 are returned as exact `bigint`s, as by `parseLosslessJson`.
+ *
+ * Comments are collected by the JSON Pointer of the value they belong to, so
+ * `stringifyJsonc` can write them back in the same places.
+ */
+
+import {
+  InvalidJsonError,
+  InvalidOptionError,
+  JsonSyntaxError,
+} from "./errors.ts";
+import { formatPointer } from "./jsonPointer.ts";
+import { parseLosslessJson, stringifyLosslessJson } from "./numbers.ts";
+
+/**
+ * Syntax of JSON input; `auto` reads strict JSON and falls back to JSON5,
+ * which also covers JSONC
+ */
+export type InputFormat = "json" | "jsonc" | "json5" | "auto";
+
+/** Comments around one value, including their `//` or `/* *\/` delimiters */
+export interface CommentPlacement {
+  /** Comments on the lines before the value */
+  before?: string[];
+  /** Comments after the value, on the same line (after the document, for the root) */
+  after?: string[];
+  /** Comments before the closing bracket of an object or array */
+  end?: string[];
+}
+
+/** Comments keyed by the JSON Pointer of their value (`""` for the root) */
+export type JsonComments = Record<string, CommentPlacement>;
+
+export interface ParsedJsonText {
+  /** The parsed value */
+  value: unknown;
+  /** The comments found, empty for strict JSON */
+  comments: JsonComments;
+}
+
+/** Root field that holds the comments of a document when they are kept */
+export const COMMENTS_FIELD = "$comments";
+
+const INPUT_FORMATS: readonly InputFormat[] = [
+  "json",
+  "jsonc",
+  "json5",
+  "auto",
+];
+
+/**
+ * Parse JSON, JSONC or JSON5 text
+ * @param text - The text to parse
+ * @param format - The syntax of the text (default: `json`)
+ * @returns The value and its comments
+ */
+export function parseJsonText(
+  text: string,
+  format: InputFormat = "json",
+): ParsedJsonText {
+  if (!INPUT_FORMATS.includes(format)) {
+    throw new InvalidOptionError(
+      `Invalid input format "${format}" (expected ${INPUT_FORMATS.join(", ")})`,
+    );
+  }
+  if (format === "json" || format === "auto") {
+    try {
+      return { value: parseLosslessJson(text), comments: {} };
+    } catch (error) {
+      if (format === "json") {
+        // Report the position of the error in the same form as for JSON5
+        new TextParser(text, "json").parse();
+        throw error;
+      }
+    }
+  }
+  const parser = new TextParser(text, format === "jsonc" ? "jsonc" : "json5");
+  return { value: parser.parse(), comments: parser.comments };
+}
+
+/**
+ * Serialize a value as JSONC, indented by two spaces, with comments written
+ * back in their places
+ * @param value - The value to serialize
+ * @param comments - The comments, keyed by JSON Pointer
+ * @returns The JSONC text
+ */
+export function stringifyJsonc(
+  value: unknown,
+  comments: JsonComments = {},
+): string {
+  const root = comments[""] ?? {};
+  return [
+    ...(root.before ?? []),
+    writeValue(value, [], "", comments),
+    ...(root.after ?? []),
+  ].join("\n");
+}
+
+/**
+ * Store comments in the `$comments` field of a JSON object
+ * @param json - The JSON value; must be an object if there are comments
+ * @param comments - The comments to store
+ * @returns A copy of `json` with the comments, or `json` if there are none
+ */
+export function attachComments(
+  json: unknown,
+  comments: JsonComments,
+): unknown {
+  if (Object.keys(comments).length === 0) {
+    return json;
+  }
+  if (!isPlainObject(json)) {
+    throw new InvalidJsonError(
+      "Comments can only be kept when the root is an object",
+    );
+  }
+  if (COMMENTS_FIELD in json) {
+    throw new InvalidJsonError(
+      `Comments cannot be kept: the JSON already has a "${COMMENTS_FIELD}" field`,
+      `/${COMMENTS_FIELD}`,
+    );
+  }
+  return { ...json, [COMMENTS_FIELD]: comments };
+}
+
+/**
+ * Take the comments stored by `attachComments` out of a JSON object
+ * @param json - The JSON value
+ * @returns The value without the `$comments` field, and the comments
+ */
+export function detachComments(json: unknown): ParsedJsonText {
+  if (!isPlainObject(json) || !isPlainObject(json[COMMENTS_FIELD])) {
+    return { value: json, comments: {} };
+  }
+  const { [COMMENTS_FIELD]: comments, ...value } = json;
+  return { value, comments: comments as JsonComments };
+}
+
+interface Comment {
+  text: string;
+  /** Whether a line break separates the comment from the preceding token */
+  onNewLine: boolean;
+}
+
+type Syntax = "json" | "jsonc" | "json5";
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+const JSON5_ESCAPES: Record<string, string> = {
+  ...ESCAPES,
+  "'": "'",
+  v: "\v",
+  0: "\0",
+};
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const IDENTIFIER = /[\p{ID_Start}$_][\p{ID_Continue}$\u200C\u200D]*/uy;
+const LINE_BREAKS = "\n\r\u2028\u2029";
+const LITERALS: Array<[string, boolean | null]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+class TextParser {
+  readonly comments: JsonComments = {};
+  #pos = 0;
+
+  constructor(readonly text: string, readonly syntax: Syntax) {}
+
+  parse(): unknown {
+    this.#note([], "before", this.#trivia());
+    const value = this.#value([]);
+    this.#note([], "after", this.#trivia());
+    if (this.#pos < this.text.length) {
+      this.#unexpected("after the JSON value");
+    }
+    return value;
+  }
+
+  #value(path: (string | number)[]): unknown {
+    const char = this.text[this.#pos];
+    if (char === "{") {
+      return this.#object(path);
+    }
+    if (char === "[") {
+      return this.#array(path);
+    }
+    if (char === '"' || (char === "'" && this.syntax === "json5")) {
+      return this.#string();
+    }
+    for (const [literal, value] of LITERALS) {
+      if (this.text.startsWith(literal, this.#pos)) {
+        this.#pos += literal.length;
+        return value;
+      }
+    }
+    return this.#number();
+  }
+
+  #object(path: (string | number)[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.#pos++;
+    let pending = this.#trivia();
+    while (this.text[this.#pos] !== "}") {
+      const key = this.#key();
+      const memberPath = [...path, key];
+      pending.push(...this.#trivia());
+      this.#expect(":");
+      pending.push(...this.#trivia());
+      this.#note(memberPath, "before", pending);
+      // Like JSON.parse, keep "__proto__" as an own property
+      Object.defineProperty(result, key, {
+        value: this.#value(memberPath),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+      pending = this.#separator(memberPath, "}");
+    }
+    this.#note(path, "end", pending);
+    this.#pos++;
+    return result;
+  }
+
+  #array(path: (string | number)[]): unknown[] {
+    const result: unknown[] = [];
+    this.#pos++;
+    let pending = this.#trivia();
+    while (this.text[this.#pos] !== "]") {
+      const itemPath = [...path, result.length];
+      this.#note(itemPath, "before", pending);
+      result.push(this.#value(itemPath));
+      pending = this.#separator(itemPath, "]");
+    }
+    this.#note(path, "end", pending);
+    this.#pos++;
+    return result;
+  }
+
+  /**
+   * Read what follows a member or element: comments on the same line belong
+   * to it, later ones to the next member or the end of the container
+   */
+  #separator(path: (string | number)[], close: string): Comment[] {
+    let pending = this.#trivia();
+    let sameLine = takeSameLine(pending);
+    pending = pending.slice(sameLine.length);
+    if (this.text[this.#pos] === ",") {
+      this.#pos++;
+      const next = this.#trivia();
+      if (pending.length === 0) {
+        sameLine = [...sameLine, ...takeSameLine(next)];
+        pending = next.slice(sameLine.length);
+      } else {
+        pending.push(...next);
+      }
+      if (this.text[this.#pos] === close && this.syntax === "json") {
+        this.#fail("Trailing commas are not allowed in JSON");
+      }
+    } else if (this.text[this.#pos] !== close) {
+      this.#unexpected(`(expected "," or "${close}")`);
+    }
+    this.#note(path, "after", sameLine);
+    return pending;
+  }
+
+  #key(): string {
+    const char = this.text[this.#pos];
+    if (char === '"' || (char === "'" && this.syntax === "json5")) {
+      return this.#string();
+    }
+    if (this.syntax === "json5") {
+      IDENTIFIER.lastIndex = this.#pos;
+      const match = IDENTIFIER.exec(this.text);
+      if (match) {
+        this.#pos += match[0].length;
+        return match[0];
+      }
+    }
+    return this.#unexpected("(expected a property name)");
+  }
+
+  #string(): string {
+    const quote = this.text[this.#pos++];
+    const escapes = this.syntax === "json5" ? JSON5_ESCAPES : ESCAPES;
+    let result = "";
+    while (this.#pos < this.text.length) {
+      const char = this.text[this.#pos];
+      if (char === quote) {
+        this.#pos++;
+        return result;
+      }
+      if (char === "\\") {
+        result += this.#escape(escapes);
+      } else if (
+        char < " " && (this.syntax !== "json5" || LINE_BREAKS.includes(char))
+      ) {
+        this.#fail("Unescaped control character in string");
+      } else {
+        result += char;
+        this.#pos++;
+      }
+    }
+    return this.#fail("Unterminated string");
+  }
+
+  #escape(escapes: Record<string, string>): string {
+    const char = this.text[this.#pos + 1];
+    this.#pos += 2;
+    if (char in escapes) {
+      return escapes[char];
+    }
+    if (char === "u" || (char === "x" && this.syntax === "json5")) {
+      const length = char === "u" ? 4 : 2;
+      const hex = this.text.slice(this.#pos, this.#pos + length);
+      if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+        this.#pos -= 2;
+        this.#fail("Invalid escape sequence");
+      }
+      this.#pos += length;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    if (this.syntax === "json5" && char !== undefined) {
+      if (char === "\r" && this.text[this.#pos] === "\n") {
+        this.#pos++;
+      }
+      // A backslash before a line break continues the string
+      return LINE_BREAKS.includes(char) ? "" : char;
+    }
+    this.#pos -= 2;
+    return this.#fail("Invalid escape sequence");
+  }
+
+  #number(): number | bigint {
+    const pattern = this.syntax === "json5" ? JSON5_NUMBER : JSON_NUMBER;
+    pattern.lastIndex = this.#pos;
+    const literal = pattern.exec(this.text)?.[0];
+    if (literal === undefined) {
+      return this.#unexpected();
+    }
+    this.#pos += literal.length;
+
+    const negative = literal.startsWith("-");
+    const digits = literal.replace(/^[+-]/, "");
+    if (/^(?:\d+|0[xX][0-9a-fA-F]+)$/.test(digits)) {
+      const value = BigInt(digits);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        return negative ? -value : value;
+      }
+      return negative ? -Number(value) : Number(value);
+    }
+    return Number(literal);
+  }
+
+  /**
+   * Skip whitespace and comments, returning the comments
+   */
+  #trivia(): Comment[] {
+    const comments: Comment[] = [];
+    let onNewLine = false;
+    while (this.#pos < this.text.length) {
+      const char = this.text[this.#pos];
+      if (LINE_BREAKS.includes(char)) {
+        onNewLine = true;
+        this.#pos++;
+      } else if (
+        char === " " || char === "\t" ||
+        (this.syntax === "json5" && /[\s\uFEFF]/.test(char)) ||
+        (this.syntax === "jsonc" && char === "\uFEFF")
+      ) {
+        this.#pos++;
+      } else if (char === "/" && "/*".includes(this.text[this.#pos + 1])) {
+        if (this.syntax === "json") {
+          this.#fail("Comments are not allowed in JSON");
+        }
+        comments.push({ text: this.#comment(), onNewLine });
+        onNewLine = false;
+      } else {
+        break;
+      }
+    }
+    return comments;
+  }
+
+  #comment(): string {
+    const start = this.#pos;
+    if (this.text[this.#pos + 1] === "/") {
+      while (
+        this.#pos < this.text.length &&
+        !LINE_BREAKS.includes(this.text[this.#pos])
+      ) {
+        this.#pos++;
+      }
+      return this.text.slice(start, this.#pos).trimEnd();
+    }
+    const end = this.text.indexOf("*/", this.#pos + 2);
+    if (end === -1) {
+      this.#fail("Unterminated comment");
+    }
+    this.#pos = end + 2;
+    return this.text.slice(start, this.#pos);
+  }
+
+  #note(
+    path: (string | number)[],
+    position: keyof CommentPlacement,
+    comments: Comment[],
+  ): void {
+    if (comments.length > 0) {
+      const placement = this.comments[formatPointer(path)] ??= {};
+      (placement[position] ??= []).push(...comments.map(({ text }) => text));
+    }
+  }
+
+  #expect(char: string): void {
+    if (this.text[this.#pos] !== char) {
+      this.#unexpected(`(expected "${char}")`);
+    }
+    this.#pos++;
+  }
+
+  #unexpected(context?: string): never {
+    const char = this.text[this.#pos];
+    const found = char === undefined
+      ? "Unexpected end of input"
+      : `Unexpected character ${JSON.stringify(char)}`;
+    return this.#fail(context ? `${found} ${context}` : found);
+  }
+
+  #fail(message: string): never {
+    const before = this.text.slice(0, this.#pos);
+    const line = before.split("\n").length;
+    const column = this.#pos - before.lastIndexOf("\n");
+    throw new JsonSyntaxError(message, line, column);
+  }
+}
+
+function takeSameLine(comments: Comment[]): Comment[] {
+  const index = comments.findIndex(({ onNewLine }) => onNewLine);
+  return index === -1 ? comments : comments.slice(0, index);
+}
+
+function writeValue(
+  value: unknown,
+  path: (string | number)[],
+  indent: string,
+  comments: JsonComments,
+): string {
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return stringifyLosslessJson(value) ?? "null";
+  }
+  const entries: Array<[string | number, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value).filter(([, item]) => item !== undefined);
+
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  const end = comments[formatPointer(path)]?.end ?? [];
+  if (entries.length === 0 && end.length === 0) {
+    return open + close;
+  }
+
+  const inner = indent + "  ";
+  const lines = entries.flatMap(([key, item], index) => {
+    const itemPath = [...path, key];
+    const { before = [], after = [] } = comments[formatPointer(itemPath)] ??
+      {};
+    const name = typeof key === "string" ? `${JSON.stringify(key)}: ` : "";
+    const comma = index < entries.length - 1 ? "," : "";
+    return [
+      ...before.map((comment) => inner + comment),
+      inner + name + writeValue(item, itemPath, inner, comments) + comma +
+      after.map((comment) => " " + comment).join(""),
+    ];
+  });
+  return [
+    open,
+    ...lines,
+    ...end.map((comment) => inner + comment),
+    indent + close,
+  ].join("\n");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
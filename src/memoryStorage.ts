@@ -0,0 +1,50 @@
+/**
+ * An automerge-repo storage adapter that keeps chunks in memory
+ */
+
+import type {
+  Chunk,
+  StorageAdapterInterface,
+  StorageKey,
+} from "@automerge/automerge-repo";
+
+export class MemoryStorageAdapter implements StorageAdapterInterface {
+  #chunks = new Map<string, Chunk>();
+
+  load(key: StorageKey): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.#chunks.get(keyString(key))?.data);
+  }
+
+  save(key: StorageKey, data: Uint8Array): Promise<void> {
+    this.#chunks.set(keyString(key), { key, data });
+    return Promise.resolve();
+  }
+
+  remove(key: StorageKey): Promise<void> {
+    this.#chunks.delete(keyString(key));
+    return Promise.resolve();
+  }
+
+  loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    return Promise.resolve(
+      [...this.#chunks.values()].filter(({ key }) => hasPrefix(key, keyPrefix)),
+    );
+  }
+
+  removeRange(keyPrefix: StorageKey): Promise<void> {
+    for (const [id, { key }] of this.#chunks) {
+      if (hasPrefix(key, keyPrefix)) {
+        this.#chunks.delete(id);
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+function keyString(key: StorageKey): string {
+  return JSON.stringify(key);
+}
+
+function hasPrefix(key: StorageKey, prefix: StorageKey): boolean {
+  return prefix.every((part, index) => key[index] === part);
+}
@@ -0,0 +1,73 @@
+/**
+ * Merging several copies of the same Automerge document
+ */
+
+import * as A from "@automerge/automerge";
+import {
+  EmptyBinaryError,
+  InvalidOptionError,
+  UnrelatedDocumentsError,
+} from "./errors.ts";
+import { loadDocument } from "./jsonAutomergeConverter.ts";
+
+export interface MergeResult {
+  /** The merged Automerge binary */
+  binary: Uint8Array;
+  /** Number of changes in the merged document, per actor */
+  changesByActor: Record<string, number>;
+  /** Number of changes each input added that earlier inputs did not have */
+  newChangesPerInput: number[];
+}
+
+/**
+ * Merge copies of the same document that were edited separately
+ * @param binaries - The Automerge binaries to merge
+ * @returns The merged binary and a summary of the merged changes
+ */
+export function mergeAutomerge(binaries: Uint8Array[]): MergeResult {
+  if (binaries.length === 0) {
+    throw new InvalidOptionError(
+      "Nothing to merge: at least one document is required",
+    );
+  }
+
+  let merged: A.Doc<unknown> | undefined;
+  let known = new Set<string>();
+  const newChangesPerInput: number[] = [];
+
+  binaries.forEach((binary, index) => {
+    if (binary.length === 0) {
+      throw new EmptyBinaryError(
+        `Cannot merge input ${
+          index + 1
+        }: empty binary data is not valid Automerge format`,
+      );
+    }
+    const doc = loadDocument(binary);
+    const hashes = A.topoHistoryTraversal(doc);
+
+    if (merged === undefined) {
+      merged = doc;
+    } else {
+      if (!hashes.some((hash) => known.has(hash))) {
+        throw new UnrelatedDocumentsError(
+          `Cannot merge input ${
+            index + 1
+          }: it shares no history with the previous documents ` +
+            "(documents created by separate conversions cannot be merged)",
+        );
+      }
+      merged = A.merge(merged, doc);
+    }
+
+    newChangesPerInput.push(hashes.filter((hash) => !known.has(hash)).length);
+    known = new Set([...known, ...hashes]);
+  });
+
+  const changesByActor: Record<string, number> = {};
+  for (const { actor } of A.getChangesMetaSince(merged!, [])) {
+    changesByActor[actor] = (changesByActor[actor] ?? 0) + 1;
+  }
+
+  return { binary: A.save(merged!), changesByActor, newChangesPerInput };
+}
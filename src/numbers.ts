@@ -0,0 +1,259 @@
+/**
+ * Numeric fidelity: how JSON numbers are stored in Automerge
+ *
+ * JSON has a single number type, while Automerge stores 64-bit integers and
+ * floats separately. Values pass through JavaScript numbers, which hold
+ * integers exactly only up to 2^53 - 1; Automerge's JavaScript API cannot
+ * store a bigint either, so larger integers are only exact as strings. A
+ * number policy decides what happens to such values, and which type numbers
+ * are stored as. Negative zero is stored as a float, since an integer cannot
+ * hold its sign.
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidJsonError, InvalidOptionError } from "./errors.ts";
+import { formatPointer, matchesPattern, parsePointer } from "./jsonPointer.ts";
+
+/**
+ * What to do with integers beyond ±(2^53 - 1):
+ * - `round`: store the nearest number, as `JSON.parse` reads it
+ * - `reject`: throw an error
+ * - `clamp`: store the nearest integer within that range
+ * - `string`: store the exact decimal digits as a string
+ *
+ * There is no exact 64-bit integer mode: Automerge's JavaScript API takes
+ * integers only as numbers, so an int64 would be stored rounded.
+ */
+export type LargeIntegerHandling = "round" | "reject" | "clamp" | "string";
+
+/** Automerge storage type forced on the numbers at a path */
+export type NumberStorage = "int" | "float";
+
+export interface NumberPolicy {
+  /** Integers beyond ±(2^53 - 1) (default: `round`) */
+  largeIntegers?: LargeIntegerHandling;
+  /**
+   * `reject` NaN and ±Infinity, or `keep` infinities as floats; Automerge
+   * cannot store NaN (default: `reject`)
+   */
+  nonFinite?: "reject" | "keep";
+  /** Storage type of the numbers at matching paths, e.g. `{"/prices/*": "float"}` */
+  paths?: Record<string, NumberStorage>;
+}
+
+/** Signature of `JSON.parse` revivers with access to the source text */
+type SourceReviver = (
+  key: string,
+  value: unknown,
+  context?: { source?: string },
+) => unknown;
+
+const LARGE_INTEGER_HANDLING: readonly LargeIntegerHandling[] = [
+  "round",
+  "reject",
+  "clamp",
+  "string",
+];
+
+/**
+ * Parse JSON text, keeping integers beyond ±(2^53 - 1) exact as `bigint`s
+ * @param text - The JSON text
+ * @returns The parsed value
+ */
+export function parseLosslessJson(text: string): unknown {
+  const reviver: SourceReviver = (_key, value, context) =>
+    typeof value === "number" && !Number.isSafeInteger(value) &&
+      context?.source !== undefined && /^-?\d+$/.test(context.source)
+      ? BigInt(context.source)
+      : value;
+  return JSON.parse(text, reviver as Parameters<typeof JSON.parse>[1]);
+}
+
+/**
+ * Serialize a value as JSON, writing `bigint`s as exact integer literals and
+ * negative zero as `-0`
+ * @param value - The value to serialize
+ * @param space - Indentation, as for `JSON.stringify`
+ * @returns The JSON text
+ */
+export function stringifyLosslessJson(
+  value: unknown,
+  space?: number,
+): string {
+  const { rawJSON } = JSON as unknown as { rawJSON(text: string): unknown };
+  return JSON.stringify(
+    value,
+    (_key, item) =>
+      typeof item === "bigint"
+        ? rawJSON(item.toString())
+        : Object.is(item, -0)
+        ? rawJSON("-0")
+        : item,
+    space,
+  );
+}
+
+/**
+ * An `A.Float64` holding negative zero, which the `A.Float64` constructor
+ * turns into 0. Automerge only checks the marker of the wrapper and reads its
+ * `value`, and stores the sign of a float. The marker is a private symbol of
+ * Automerge, so this throws instead of writing 0 if a release changes it.
+ * @returns The wrapped negative zero
+ */
+export function negativeZero(): A.Float64 {
+  const symbols = Object.getOwnPropertySymbols(new A.Float64(1));
+  if (symbols.length !== 1) {
+    throw new Error(
+      `Cannot store -0: expected one marker on A.Float64, found ${symbols.length}`,
+    );
+  }
+  const [marker] = symbols;
+  return Object.freeze(
+    Object.create(A.Float64.prototype, {
+      value: { value: -0, enumerable: true },
+      [marker]: { value: true },
+    }),
+  );
+}
+
+/**
+ * Apply a number policy to the numbers of a JSON tree. Without a policy,
+ * numbers are kept as they are and `bigint`s follow the default handling.
+ * @param json - The JSON value
+ * @param policy - The number policy
+ * @param path - The path of `json` within the document
+ * @returns A copy of `json` with the numbers converted for storage
+ */
+export function applyNumberPolicy(
+  json: unknown,
+  policy: NumberPolicy | undefined,
+  path: A.Prop[] = [],
+): unknown {
+  // Without a policy, only bigints, NaN and -0 need handling for Automerge
+  const bigintsOnly = policy === undefined;
+  const active = policy ?? {};
+  const { largeIntegers = "round" } = active;
+  if (!LARGE_INTEGER_HANDLING.includes(largeIntegers)) {
+    throw new InvalidOptionError(
+      `Invalid number policy: unknown largeIntegers handling "${largeIntegers}" (expected ${
+        LARGE_INTEGER_HANDLING.join(", ")
+      })`,
+    );
+  }
+  const rules = Object.entries(active.paths ?? {}).map(([pattern, type]) => {
+    if (type !== "int" && type !== "float") {
+      throw new InvalidOptionError(
+        `Invalid number policy: unknown storage "${type}" for "${pattern}" (expected int or float)`,
+      );
+    }
+    return { pattern: parsePointer(pattern), type };
+  });
+
+  const walk = (value: unknown, at: A.Prop[]): unknown => {
+    if (
+      typeof value === "bigint" ||
+      (typeof value === "number" &&
+        (!bigintsOnly || Number.isNaN(value) || Object.is(value, -0)))
+    ) {
+      const storage = rules.find((rule) => matchesPattern(rule.pattern, at))
+        ?.type;
+      return convertNumber(value, active, storage, at);
+    }
+    if (
+      value instanceof A.Float64 && !Number.isFinite(value.value) &&
+      !bigintsOnly
+    ) {
+      assertFiniteAllowed(value.value, active, at);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, [...at, index]));
+    }
+    if (
+      typeof value === "object" && value !== null &&
+      Object.getPrototypeOf(value) === Object.prototype
+    ) {
+      return Object.fromEntries(
+        Object.entries(value).map((
+          [key, item],
+        ) => [key, walk(item, [...at, key])]),
+      );
+    }
+    return value;
+  };
+  return walk(json, path);
+}
+
+function convertNumber(
+  value: number | bigint,
+  policy: NumberPolicy,
+  storage: NumberStorage | undefined,
+  path: A.Prop[],
+): unknown {
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    assertFiniteAllowed(value, policy, path);
+    if (Number.isNaN(value)) {
+      throw numberError(path, "Automerge cannot store NaN");
+    }
+    if (storage === "int") {
+      throw numberError(path, `${value} cannot be stored as an integer`);
+    }
+    return value;
+  }
+  if (Object.is(value, -0)) {
+    return storage === "int" ? new A.Int(0) : negativeZero();
+  }
+  if (storage === "float") {
+    return new A.Float64(Number(value));
+  }
+  const integer = typeof value === "bigint" || Number.isInteger(value);
+  if (storage === "int" && !integer) {
+    throw numberError(path, `${value} is not an integer`);
+  }
+  if (integer && !Number.isSafeInteger(Number(value))) {
+    return convertLargeInteger(value, policy.largeIntegers ?? "round", path);
+  }
+  if (storage === "int") {
+    return new A.Int(Number(value));
+  }
+  return Number(value);
+}
+
+function convertLargeInteger(
+  value: number | bigint,
+  handling: LargeIntegerHandling,
+  path: A.Prop[],
+): unknown {
+  switch (handling) {
+    case "round": {
+      // Automerge clamps integers beyond the int64 range, but not floats
+      const rounded = Number(value);
+      return Math.abs(rounded) >= 2 ** 63 ? new A.Float64(rounded) : rounded;
+    }
+    case "reject":
+      throw numberError(
+        path,
+        `${value} is outside the safe integer range of ±${Number.MAX_SAFE_INTEGER}`,
+      );
+    case "clamp":
+      return value > 0 ? Number.MAX_SAFE_INTEGER : Number.MIN_SAFE_INTEGER;
+    case "string":
+      return BigInt(value).toString();
+  }
+}
+
+function assertFiniteAllowed(
+  value: number,
+  policy: NumberPolicy,
+  path: A.Prop[],
+): void {
+  if ((policy.nonFinite ?? "reject") === "reject") {
+    throw numberError(path, `${value} is not a finite number`);
+  }
+}
+
+function numberError(path: A.Prop[], reason: string): InvalidJsonError {
+  return new InvalidJsonError(
+    `Invalid number at ${formatPointer(path) || "(root)"}: ${reason}`,
+    formatPointer(path),
+  );
+}
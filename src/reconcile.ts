@@ -0,0 +1,440 @@
+/**
+ * Minimal-change reconciliation of an Automerge document against a new JSON
+ * version. Instead of rebuilding the document with `A.from`, the differences
+ * are applied key by key so that history is kept and peers can merge.
+ */
+
+import * as A from "@automerge/automerge";
+import {
+  applyTypeMap,
+  type AutomergeValueType,
+  compileTypeMap,
+  toAutomergeType,
+  typeForPath,
+  type TypeMap,
+  type TypeRules,
+} from "./typeMap.ts";
+
+export interface ReconcileOptions {
+  /**
+   * Match array elements that are objects by this field (e.g. `"id"`) instead
+   * of by position, so reordered lists don't rewrite every entry
+   */
+  arrayIdField?: string;
+  /** Automerge types for the values at matching paths */
+  typeMap?: TypeMap;
+}
+
+type Path = A.Prop[];
+
+// Largest LCS table (old × new elements left after trimming the common prefix
+// and suffix) worth allocating; longer lists are matched by unique keys only
+const LCS_CELL_LIMIT = 4_000_000;
+
+interface ReconcileContext {
+  doc: A.Doc<unknown>;
+  idField?: string;
+  rules: TypeRules;
+}
+
+type ListEdit =
+  | { kind: "keep"; oldIndex: number; newIndex: number }
+  | { kind: "delete"; oldIndex: number }
+  | { kind: "insert"; newIndex: number };
+
+/**
+ * Apply the differences between `current` and `next` to the document being
+ * changed. Must be called inside an `A.change` callback.
+ * @param doc - The change proxy passed to the `A.change` callback
+ * @param current - The document as it was before the change
+ * @param next - The new JSON version of the document
+ * @param options - Optional reconciliation settings
+ */
+export function reconcileDoc(
+  doc: A.Doc<unknown>,
+  current: unknown,
+  next: Record<string, unknown>,
+  options: ReconcileOptions = {},
+): void {
+  const context: ReconcileContext = {
+    doc,
+    idField: options.arrayIdField,
+    rules: compileTypeMap(options.typeMap ?? {}),
+  };
+  reconcileMap(context, [], current as Record<string, unknown>, next);
+}
+
+function reconcileMap(
+  context: ReconcileContext,
+  path: Path,
+  current: Record<string, unknown>,
+  next: Record<string, unknown>,
+): void {
+  const target = resolvePath(context.doc, path) as Record<string, unknown>;
+
+  for (const key of Object.keys(current)) {
+    if (!(key in next) || next[key] === undefined) {
+      delete target[key];
+    }
+  }
+
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!(key in current)) {
+      target[key] = applyTypeMap(value, context.rules, [...path, key]);
+    } else {
+      reconcileValue(context, [...path, key], current[key], value);
+    }
+  }
+}
+
+/**
+ * Reconcile a single value. Scalars keep their existing Automerge type unless
+ * the type map asks for a different one: text is edited with `updateText`,
+ * counters are incremented by the difference and other values are replaced.
+ */
+function reconcileValue(
+  context: ReconcileContext,
+  path: Path,
+  current: unknown,
+  next: unknown,
+): void {
+  const parent = resolvePath(context.doc, path.slice(0, -1)) as Record<
+    A.Prop,
+    unknown
+  >;
+  const key = path[path.length - 1];
+
+  // Counters and immutable strings in `next` (e.g. decoded from extended
+  // JSON) carry their own type; other scalars use the type map
+  let type: AutomergeValueType | undefined;
+  let value = next;
+  if (A.isCounter(next)) {
+    type = "counter";
+    value = (next as A.Counter).value;
+  } else if (A.isImmutableString(next)) {
+    type = "immutable";
+    value = (next as A.ImmutableString).val;
+  } else if (!isPlainObject(next) && !Array.isArray(next)) {
+    type = typeForPath(context.rules, path) ?? existingType(current, next);
+  }
+
+  if (type === "text" && typeof current === "string") {
+    const text = toAutomergeType(value, type, path) as string;
+    if (current !== text) {
+      A.updateText(context.doc, path, text);
+    }
+  } else if (type === "immutable" && A.isImmutableString(current)) {
+    if ((current as A.ImmutableString).val !== value) {
+      parent[key] = toAutomergeType(value, type, path);
+    }
+  } else if (type === "counter" && A.isCounter(current)) {
+    const counter = toAutomergeType(value, type, path) as A.Counter;
+    const delta = counter.value - (current as A.Counter).value;
+    if (delta !== 0) {
+      (parent[key] as A.Counter).increment(delta);
+    }
+  } else if (type !== undefined) {
+    parent[key] = toAutomergeType(value, type, path);
+  } else if (isPlainObject(current) && isPlainObject(next)) {
+    reconcileMap(context, path, current, next);
+  } else if (Array.isArray(current) && Array.isArray(next)) {
+    reconcileList(context, path, current, next);
+  } else if (stableStringify(current) !== stableStringify(next)) {
+    parent[key] = applyTypeMap(next, context.rules, path);
+  }
+}
+
+/**
+ * The Automerge type of an existing scalar, if the new value can keep it
+ */
+function existingType(
+  current: unknown,
+  next: unknown,
+): AutomergeValueType | undefined {
+  if (typeof current === "string" && typeof next === "string") {
+    return "text";
+  }
+  if (A.isImmutableString(current) && typeof next === "string") {
+    return "immutable";
+  }
+  // A counter only counts in whole steps; a fraction replaces it
+  if (A.isCounter(current) && Number.isInteger(next)) {
+    return "counter";
+  }
+  return undefined;
+}
+
+function reconcileList(
+  context: ReconcileContext,
+  path: Path,
+  current: unknown[],
+  next: unknown[],
+): void {
+  const list = resolvePath(context.doc, path) as unknown[];
+  let cursor = 0;
+
+  for (const edit of diffList(current, next, context.idField)) {
+    switch (edit.kind) {
+      case "keep":
+        reconcileValue(
+          context,
+          [...path, cursor],
+          current[edit.oldIndex],
+          next[edit.newIndex],
+        );
+        cursor++;
+        break;
+      case "delete":
+        A.deleteAt(list, cursor);
+        break;
+      case "insert":
+        A.insertAt(
+          list,
+          cursor,
+          applyTypeMap(next[edit.newIndex], context.rules, [...path, cursor]),
+        );
+        cursor++;
+        break;
+    }
+  }
+}
+
+/**
+ * Compute an edit script turning `current` into `next`. Elements with equal
+ * keys (id field or structural equality) are kept via a longest common
+ * subsequence; the remaining elements between two kept ones are paired up by
+ * position and updated in place, unless they carry different ids. Lists too
+ * long for the quadratic LCS table keep only elements whose key is unique.
+ */
+function diffList(
+  current: unknown[],
+  next: unknown[],
+  idField: string | undefined,
+): ListEdit[] {
+  const oldKeys = current.map((item) => elementKey(item, idField));
+  const newKeys = next.map((item) => elementKey(item, idField));
+  const edits: ListEdit[] = [];
+
+  let prefix = 0;
+  while (
+    prefix < oldKeys.length && prefix < newKeys.length &&
+    oldKeys[prefix] === newKeys[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldKeys.length - prefix && suffix < newKeys.length - prefix &&
+    oldKeys[oldKeys.length - 1 - suffix] ===
+      newKeys[newKeys.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    edits.push({ kind: "keep", oldIndex: i, newIndex: i });
+  }
+
+  const oldMiddle = oldKeys.slice(prefix, oldKeys.length - suffix);
+  const newMiddle = newKeys.slice(prefix, newKeys.length - suffix);
+  const matches = oldMiddle.length * newMiddle.length > LCS_CELL_LIMIT
+    ? uniqueCommonSubsequence(oldMiddle, newMiddle)
+    : longestCommonSubsequence(oldMiddle, newMiddle);
+  let oldIndex = prefix;
+  let newIndex = prefix;
+  for (
+    const [matchOld, matchNew] of [
+      ...matches.map(([o, n]) => [o + prefix, n + prefix]),
+      [oldKeys.length - suffix, newKeys.length - suffix],
+    ]
+  ) {
+    while (oldIndex < matchOld || newIndex < matchNew) {
+      if (
+        oldIndex < matchOld && newIndex < matchNew &&
+        canUpdateInPlace(current[oldIndex], next[newIndex], idField)
+      ) {
+        edits.push({
+          kind: "keep",
+          oldIndex: oldIndex++,
+          newIndex: newIndex++,
+        });
+      } else if (oldIndex < matchOld) {
+        edits.push({ kind: "delete", oldIndex: oldIndex++ });
+      } else {
+        edits.push({ kind: "insert", newIndex: newIndex++ });
+      }
+    }
+    if (matchOld < oldKeys.length - suffix) {
+      edits.push({ kind: "keep", oldIndex: oldIndex++, newIndex: newIndex++ });
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    edits.push({ kind: "keep", oldIndex: oldIndex++, newIndex: newIndex++ });
+  }
+
+  return edits;
+}
+
+function longestCommonSubsequence(
+  a: string[],
+  b: string[],
+): Array<[number, number]> {
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Patience diff: match the keys that occur exactly once in both lists, keeping
+ * the longest run of them that appears in the same order. Linear memory, so
+ * long reordered lists don't need an LCS table.
+ */
+function uniqueCommonSubsequence(
+  a: string[],
+  b: string[],
+): Array<[number, number]> {
+  const countKeys = (keys: string[]) => {
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const countsA = countKeys(a);
+  const countsB = countKeys(b);
+  const positionsB = new Map<string, number>();
+  b.forEach((key, j) => {
+    if (countsB.get(key) === 1 && countsA.get(key) === 1) {
+      positionsB.set(key, j);
+    }
+  });
+  const pairs: Array<[number, number]> = [];
+  a.forEach((key, i) => {
+    const j = positionsB.get(key);
+    if (j !== undefined) {
+      pairs.push([i, j]);
+    }
+  });
+
+  // Longest increasing subsequence of the positions in `b`
+  const tails: number[] = [];
+  const previous: number[] = [];
+  pairs.forEach(([, j], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[tails[middle]][1] < j) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const matches: Array<[number, number]> = [];
+  for (let index = tails.at(-1) ?? -1; index !== -1; index = previous[index]) {
+    matches.push(pairs[index]);
+  }
+  return matches.reverse();
+}
+
+function elementKey(item: unknown, idField: string | undefined): string {
+  const id = elementId(item, idField);
+  return id === undefined
+    ? `value:${stableStringify(item)}`
+    : `id:${stableStringify(id)}`;
+}
+
+function elementId(item: unknown, idField: string | undefined): unknown {
+  if (idField === undefined || !isPlainObject(item)) {
+    return undefined;
+  }
+  return item[idField];
+}
+
+function canUpdateInPlace(
+  current: unknown,
+  next: unknown,
+  idField: string | undefined,
+): boolean {
+  return elementId(current, idField) === undefined &&
+    elementId(next, idField) === undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Serialize a value with sorted object keys so that structurally equal values
+ * produce the same string regardless of key order
+ */
+export function stableStringify(value: unknown): string {
+  if (A.isCounter(value) || isNumberWrapper(value)) {
+    return JSON.stringify((value as A.Counter).value);
+  }
+  if (A.isImmutableString(value)) {
+    return JSON.stringify((value as A.ImmutableString).val);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return `date:${value.getTime()}`;
+  }
+  if (value instanceof Uint8Array) {
+    return `bytes:${value.join(",")}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value).sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function isNumberWrapper(value: unknown): boolean {
+  return value instanceof A.Int || value instanceof A.Uint ||
+    value instanceof A.Float64;
+}
+
+function resolvePath(doc: A.Doc<unknown>, path: Path): unknown {
+  return path.reduce<unknown>(
+    (node, key) => (node as Record<A.Prop, unknown>)[key],
+    doc,
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Reading and writing automerge-repo storage directories without a live repo
+ *
+ * automerge-repo stores each document as chunks under storage keys of the form
+ * `[documentId, "snapshot", headsHash]` and `[documentId, "incremental",
+ * chunkHash]`. The filesystem storage adapter maps a key to the path
+ * `<dir>/<first 2 chars of id>/<rest of id>/<chunk type>/<hash>`.
+ */
+
+import * as A from "@automerge/automerge";
+import { stringifyAutomergeUrl } from "@automerge/automerge-repo";
+import { resolveDocumentId } from "./automergeUrl.ts";
+import { accessFile, FileAccessError } from "./errors.ts";
+import {
+  checkActorId,
+  jsonToAutomerge,
+  updateDocumentFromJson,
+  type UpdateOptions,
+} from "./jsonAutomergeConverter.ts";
+
+export interface RepoStorageOptions extends UpdateOptions {
+  /**
+   * Document ID or automerge URL to write to. If the document already exists
+   * in the directory, the changes are added as an incremental chunk.
+   */
+  documentId?: string;
+}
+
+export interface RepoStorageExport {
+  /** The ID of the document in the repo */
+  documentId: string;
+  /** The automerge URL of the document, for `repo.find()` */
+  url: string;
+  /** The chunk file written (none if nothing changed) */
+  file?: string;
+}
+
+type ChunkType = "snapshot" | "incremental";
+
+/**
+ * Write JSON as a document in an automerge-repo storage directory
+ * @param json - The JSON object to store
+ * @param dir - The storage directory of the repo
+ * @param options - Optional conversion settings and the document to update
+ * @returns The document ID, URL and the chunk file written
+ */
+export async function exportToRepoStorage(
+  json: unknown,
+  dir: string,
+  options: RepoStorageOptions = {},
+): Promise<RepoStorageExport> {
+  const documentId = resolveDocumentId(options.documentId);
+  const url = stringifyAutomergeUrl({ documentId });
+
+  const existing = await readChunks(dir, documentId);
+  let file: string | undefined;
+  if (existing.length === 0) {
+    const binary = jsonToAutomerge(json, options);
+    const hash = await headsHash(A.getHeads(A.load(binary)));
+    file = await writeChunk(dir, documentId, "snapshot", hash, binary);
+  } else {
+    const doc = loadChunks<Record<string, unknown>>(existing, options.actor);
+    const heads = A.getHeads(doc);
+    const updated = updateDocumentFromJson(doc, json, options);
+    if (updated !== doc) {
+      const chunk = A.saveSince(updated, heads);
+      file = await writeChunk(
+        dir,
+        documentId,
+        "incremental",
+        await sha256Hex(chunk),
+        chunk,
+      );
+    }
+  }
+
+  return { documentId, url, file };
+}
+
+/**
+ * Read a document from an automerge-repo storage directory, combining its
+ * snapshot and incremental chunks
+ * @param dir - The storage directory of the repo
+ * @param documentId - The document ID or automerge URL
+ * @returns The document as a single Automerge binary
+ */
+export async function importFromRepoStorage(
+  dir: string,
+  documentId: string,
+): Promise<Uint8Array> {
+  const id = resolveDocumentId(documentId);
+  const chunks = await readChunks(dir, id);
+  if (chunks.length === 0) {
+    throw new FileAccessError(`Document ${id} was not found in ${dir}`, dir);
+  }
+  return A.save(loadChunks(chunks));
+}
+
+function documentDir(dir: string, documentId: string): string {
+  return `${dir}/${documentId.slice(0, 2)}/${documentId.slice(2)}`;
+}
+
+/**
+ * Read the chunks of a document, snapshots first as automerge-repo does
+ */
+async function readChunks(
+  dir: string,
+  documentId: string,
+): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = [];
+  for (const type of ["snapshot", "incremental"] satisfies ChunkType[]) {
+    const chunkDir = `${documentDir(dir, documentId)}/${type}`;
+    const names: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(chunkDir)) {
+        if (entry.isFile) {
+          names.push(entry.name);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw new FileAccessError(
+          `Cannot access ${chunkDir}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          chunkDir,
+          { cause: error },
+        );
+      }
+    }
+    for (const name of names.sort()) {
+      const file = `${chunkDir}/${name}`;
+      chunks.push(await accessFile(file, () => Deno.readFile(file)));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Load chunks one by one, since incremental chunks are not stored in causal
+ * order and changes whose dependencies are missing are held back until then
+ */
+function loadChunks<T>(chunks: Uint8Array[], actor?: string): A.Doc<T> {
+  return chunks.reduce(
+    (doc, chunk) => A.loadIncremental(doc, chunk),
+    A.init<T>(checkActorId(actor)),
+  );
+}
+
+async function writeChunk(
+  dir: string,
+  documentId: string,
+  type: ChunkType,
+  hash: string,
+  data: Uint8Array,
+): Promise<string> {
+  const chunkDir = `${documentDir(dir, documentId)}/${type}`;
+  const file = `${chunkDir}/${hash}`;
+  await accessFile(file, async () => {
+    await Deno.mkdir(chunkDir, { recursive: true });
+    await Deno.writeFile(file, data);
+  });
+  return file;
+}
+
+/**
+ * The key automerge-repo stores snapshots under: the SHA-256 of the
+ * concatenated hex heads
+ */
+function headsHash(heads: A.Heads): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(heads.join("")));
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    data as Uint8Array<ArrayBuffer>,
+  );
+  return Array.from(
+    new Uint8Array(digest),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
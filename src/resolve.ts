@@ -0,0 +1,117 @@
+/**
+ * Settling concurrent edits
+ *
+ * A conflict is resolved by writing the chosen value again in a new change.
+ * The new operation has seen every competing one, so it replaces all of them:
+ * other peers receive the choice like any other edit, and it shows up in the
+ * history with a message naming the path and the actor whose value was kept.
+ */
+
+import * as A from "@automerge/automerge";
+import { type Conflict, findConflicts } from "./conflicts.ts";
+import { InvalidOptionError } from "./errors.ts";
+import { decodeExtendedJson } from "./extendedJson.ts";
+import {
+  changeOptions,
+  type ConversionOptions,
+  loadDocument,
+} from "./jsonAutomergeConverter.ts";
+import { parsePointer } from "./jsonPointer.ts";
+import { stableStringify } from "./reconcile.ts";
+
+export interface ResolveResult {
+  /** The updated Automerge binary */
+  binary: Uint8Array;
+  /** Actor whose value was kept */
+  actor: string;
+  /** The kept value, as plain JSON */
+  value: unknown;
+}
+
+/**
+ * Resolve the conflict at a path by keeping one of the competing values, as
+ * a single change. Without the `message` option the change is described as
+ * `Resolve conflict at <path>: keep the value of <actor>`.
+ * @param binary - The Automerge binary data
+ * @param path - JSON Pointer of the conflicted key or list element
+ * @param pick - The actor ID or operation ID that wrote the value to keep, or
+ *   the value itself as JSON (a bare string is taken as a string)
+ * @param options - Optional settings of the resolution change
+ * @returns The updated binary, with the kept value and its actor
+ */
+export function resolveConflict(
+  binary: Uint8Array,
+  path: string,
+  pick: string,
+  options: ConversionOptions = {},
+): ResolveResult {
+  const doc = loadDocument<Record<string, unknown>>(binary, options);
+  const conflict = findConflict(doc, path, false);
+  const index = pickIndex(conflict, pick);
+  const { actor, value } = conflict.values[index];
+  // Written back from extended JSON, so counters, dates and the like keep
+  // their Automerge types; maps that look like tagged values come wrapped as
+  // {"$map": ...} and stay maps
+  const kept = findConflict(doc, path, true).values[index].value;
+
+  const segments = parsePointer(path);
+  const key = segments.pop()!;
+  const updated = A.change(
+    doc,
+    changeOptions({
+      ...options,
+      message: options.message ??
+        `Resolve conflict at ${path}: keep the value of ${actor}`,
+    }),
+    (d) => {
+      const parent = segments.reduce(
+        (node, segment) => node[segment] as Record<string, unknown>,
+        d as Record<string, unknown>,
+      );
+      parent[key] = decodeExtendedJson(kept, [...segments, key]);
+    },
+  );
+  return { binary: A.save(updated), actor, value };
+}
+
+function findConflict(
+  doc: A.Doc<unknown>,
+  path: string,
+  extended: boolean,
+): Conflict {
+  const conflict = findConflicts(doc, undefined, extended)
+    .find((candidate) => candidate.path === path);
+  if (conflict === undefined) {
+    throw new InvalidOptionError(`No conflict at ${path || "the root"}`);
+  }
+  return conflict;
+}
+
+/** Index of the picked value: by actor or operation ID first, then by value */
+function pickIndex({ path, values }: Conflict, pick: string): number {
+  const byWriter = values.findIndex(({ actor, opId }) =>
+    actor === pick || opId === pick
+  );
+  if (byWriter !== -1) {
+    return byWriter;
+  }
+
+  let picked: unknown;
+  try {
+    picked = JSON.parse(pick);
+  } catch {
+    picked = pick;
+  }
+  const byValue = values.findIndex(({ value }) =>
+    stableStringify(value) === stableStringify(picked)
+  );
+  if (byValue !== -1) {
+    return byValue;
+  }
+
+  throw new InvalidOptionError(
+    `No value at ${path} matches "${pick}" (expected one of the actors ${
+      values.map(({ actor }) => actor).join(", ")
+    } or one of their values)`,
+  );
+}
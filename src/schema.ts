@@ -0,0 +1,332 @@
+/**
+ * Validation against a practical subset of JSON Schema (draft 2020-12)
+ *
+ * Supported keywords: `type`, `enum`, `const`, `minLength`, `maxLength`,
+ * `pattern`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`,
+ * `multipleOf`, `items`, `prefixItems`, `minItems`, `maxItems`,
+ * `uniqueItems`, `properties`, `required` and `additionalProperties`. Other
+ * keywords are ignored, as JSON Schema does for unknown keywords.
+ *
+ * Values are validated in their JSON form, so timestamps are ISO strings and
+ * counters and number types are plain numbers.
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidOptionError, SchemaMismatchError } from "./errors.ts";
+import { formatPointer } from "./jsonPointer.ts";
+import { stableStringify } from "./reconcile.ts";
+
+export type JsonSchemaType =
+  | "null"
+  | "boolean"
+  | "integer"
+  | "number"
+  | "string"
+  | "array"
+  | "object";
+
+export type JsonSchema = boolean | {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+export interface SchemaViolation {
+  /** JSON Pointer of the offending value */
+  path: string;
+  /** The schema keyword that failed */
+  keyword: string;
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Validate a JSON value against a schema
+ * @param value - The JSON value to validate
+ * @param schema - The JSON Schema
+ * @returns Every violation found (empty if the value matches)
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateValue(toJsonForm(value), schema, [], violations);
+  return violations;
+}
+
+/**
+ * Throw an error listing every violation if a value doesn't match a schema
+ * @param value - The JSON value to validate
+ * @param schema - The JSON Schema
+ * @param subject - What the value is, for the error message
+ */
+export function assertMatchesSchema(
+  value: unknown,
+  schema: JsonSchema,
+  subject = "JSON",
+): void {
+  const violations = validateAgainstSchema(value, schema);
+  if (violations.length > 0) {
+    throw new SchemaMismatchError(
+      `${subject} does not match the schema:\n` +
+        violations.map(({ path, message }) =>
+          `  ${path || "(root)"}: ${message}`
+        )
+          .join("\n"),
+      violations,
+    );
+  }
+}
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: (string | number)[],
+  violations: SchemaViolation[],
+): void {
+  const report = (keyword: string, message: string, at = path) =>
+    violations.push({ path: formatPointer(at), keyword, message });
+
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    report("false", "is not allowed");
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      report("type", `must be ${types.join(" or ")}, found ${typeOf(value)}`);
+      // The other keywords would only repeat the mismatch
+      return;
+    }
+  }
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((option) => sameValue(option, value))
+  ) {
+    report(
+      "enum",
+      `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    );
+  }
+  if ("const" in schema && !sameValue(schema.const, value)) {
+    report("const", `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    validateString(value, schema, report);
+  } else if (typeof value === "number") {
+    validateNumber(value, schema, report);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, violations, report);
+  } else if (typeof value === "object" && value !== null) {
+    validateObject(
+      value as Record<string, unknown>,
+      schema,
+      path,
+      violations,
+      report,
+    );
+  }
+}
+
+type Report = (
+  keyword: string,
+  message: string,
+  at?: (string | number)[],
+) => void;
+type SchemaObject = Exclude<JsonSchema, boolean>;
+
+function validateString(
+  value: string,
+  schema: SchemaObject,
+  report: Report,
+): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    report("minLength", `must have at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    report("maxLength", `must have at most ${schema.maxLength} characters`);
+  }
+  if (
+    schema.pattern !== undefined && !compilePattern(schema.pattern).test(value)
+  ) {
+    report("pattern", `must match the pattern ${schema.pattern}`);
+  }
+}
+
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, "u");
+  } catch (error) {
+    throw new InvalidOptionError(
+      `Invalid schema: pattern ${pattern} is not a valid regular expression`,
+      { cause: error },
+    );
+  }
+}
+
+function validateNumber(
+  value: number,
+  schema: SchemaObject,
+  report: Report,
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    report("minimum", `must be >= ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    report("maximum", `must be <= ${schema.maximum}`);
+  }
+  if (
+    schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum
+  ) {
+    report("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+  }
+  if (
+    schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum
+  ) {
+    report("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+  }
+  if (
+    schema.multipleOf !== undefined &&
+    !isMultipleOf(value, schema.multipleOf)
+  ) {
+    report("multipleOf", `must be a multiple of ${schema.multipleOf}`);
+  }
+}
+
+/**
+ * Whether the quotient is an integer, allowing for the rounding error of
+ * binary fractions (0.3 / 0.1 is 2.9999999999999996)
+ */
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) <=
+    8 * Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
+
+function validateArray(
+  value: unknown[],
+  schema: SchemaObject,
+  path: (string | number)[],
+  violations: SchemaViolation[],
+  report: Report,
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    report("minItems", `must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    report("maxItems", `must have at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems) {
+    const keys = value.map(stableStringify);
+    if (new Set(keys).size !== keys.length) {
+      report("uniqueItems", "must not contain duplicate items");
+    }
+  }
+
+  const prefixItems = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length
+      ? prefixItems[index]
+      : schema.items;
+    if (itemSchema !== undefined) {
+      validateValue(item, itemSchema, [...path, index], violations);
+    }
+  });
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: SchemaObject,
+  path: (string | number)[],
+  violations: SchemaViolation[],
+  report: Report,
+): void {
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(value, key)) {
+      report("required", "is required", [...path, key]);
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const [key, item] of Object.entries(value)) {
+    if (Object.hasOwn(properties, key)) {
+      validateValue(item, properties[key], [...path, key], violations);
+    } else if (schema.additionalProperties === false) {
+      report("additionalProperties", "is not allowed", [...path, key]);
+    } else if (schema.additionalProperties !== undefined) {
+      validateValue(
+        item,
+        schema.additionalProperties,
+        [...path, key],
+        violations,
+      );
+    }
+  }
+}
+
+function toJsonForm(value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+  return JSON.parse(
+    JSON.stringify(
+      value,
+      (_key, item) =>
+        item instanceof A.Int || item instanceof A.Uint ||
+          item instanceof A.Float64
+          ? item.value
+          : typeof item === "bigint"
+          ? Number(item)
+          : item,
+    ),
+  );
+}
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
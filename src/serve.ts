@@ -0,0 +1,493 @@
+/**
+ * Local HTTP service for conversions and stored documents
+ *
+ * Services that cannot import the library would otherwise start the CLI for
+ * every conversion. The service converts request bodies directly, and reads
+ * and updates the `.automerge` files in one directory, so documents can be
+ * kept on the host and changed by several clients. Writes to one document are
+ * applied one at a time, and every file is replaced atomically.
+ *
+ * Endpoints:
+ * - `POST /json2bin` - JSON body, Automerge binary response
+ * - `POST /bin2json` - Automerge binary body, JSON response (`?heads=`)
+ * - `GET /documents` - IDs of the stored documents
+ * - `POST /documents` - Store a JSON body as a new document with a new ID
+ * - `GET /documents/:id` - JSON of a document (`?heads=`), or the whole binary
+ *   with `Accept: application/octet-stream`
+ * - `PUT /documents/:id` - Create a document, or update it to a new JSON
+ *   version with the minimal changes
+ * - `POST /documents/:id/changes` - Apply Automerge changes or a saved copy
+ * - `POST /documents/:id/patch` - Apply JSON Patch operations as one change
+ *
+ * Browsers let any page send requests to local addresses, so writes from
+ * another origin are refused, and a server bound to a loopback address only
+ * answers requests for a loopback host name, which pages cannot forge by
+ * pointing their own domain at it.
+ */
+
+import * as A from "@automerge/automerge";
+import { resolveDocumentId } from "./automergeUrl.ts";
+import {
+  accessFile,
+  describeError,
+  type ErrorCode,
+  FileAccessError,
+  InvalidAutomergeBinaryError,
+  InvalidOptionError,
+} from "./errors.ts";
+import { writeFileAtomically } from "./incremental.ts";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  loadDocument,
+  updateDocumentFromJson,
+  type UpdateOptions,
+} from "./jsonAutomergeConverter.ts";
+import { applyJsonPatch, type JsonPatchOperation } from "./jsonPatch.ts";
+import { parseJsonText } from "./jsonc.ts";
+import { stringifyLosslessJson } from "./numbers.ts";
+
+export interface DocumentHandlerOptions extends UpdateOptions {
+  /** Largest request body in bytes (default: 32 MiB) */
+  maxBodySize?: number;
+  /** Host names to answer requests for (default: any) */
+  hostnames?: string[];
+  /** Origins of web pages allowed to write, besides the service's own */
+  origins?: string[];
+}
+
+export interface ServeOptions extends DocumentHandlerOptions {
+  /** Port to listen on (default: 8080) */
+  port?: number;
+  /** Address to bind to (default: `127.0.0.1`, reachable from this host only) */
+  hostname?: string;
+  /** Stops the server when aborted */
+  signal?: AbortSignal;
+  /** Called once the server listens */
+  onListen?: (address: Deno.NetAddr) => void;
+}
+
+/** HTTP status of each kind of failure */
+const HTTP_STATUS: Record<ErrorCode | "ERROR", number> = {
+  ERROR: 500,
+  INVALID_OPTION: 400,
+  INVALID_JSON: 400,
+  SCHEMA_MISMATCH: 422,
+  INVALID_BINARY: 400,
+  EMPTY_BINARY: 400,
+  INVALID_ACTOR_ID: 400,
+  FILE_ACCESS: 500,
+  JSON_PATCH_FAILED: 409,
+  UNRELATED_DOCUMENTS: 409,
+};
+
+const BINARY_TYPE = "application/octet-stream";
+const JSON_TYPE = "application/json; charset=utf-8";
+
+const DEFAULT_MAX_BODY_SIZE = 32 * 1024 * 1024;
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/** A request body larger than the limit, answered with status 413 */
+class RequestTooLargeError extends InvalidOptionError {}
+
+// File names of stored documents, without the extension; no leading dot, so
+// IDs cannot point outside the directory
+const DOCUMENT_ID = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+/**
+ * Create the request handler of the service, for use with `Deno.serve` or
+ * any other server that works with `Request` and `Response`
+ * @param dir - Directory of the stored `.automerge` files
+ * @param handlerOptions - Request limits, and conversion and array matching
+ *   settings for every request
+ * @returns The request handler
+ */
+export function createDocumentHandler(
+  dir: string,
+  handlerOptions: DocumentHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const {
+    maxBodySize = DEFAULT_MAX_BODY_SIZE,
+    hostnames,
+    origins,
+    ...options
+  } = handlerOptions;
+  const pending = new Map<string, Promise<unknown>>();
+
+  // Run the writes to one document one at a time, so none of them is lost
+  const queue = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const next = (pending.get(id) ?? Promise.resolve()).then(write, write);
+    pending.set(id, next);
+    const done = () => {
+      if (pending.get(id) === next) {
+        pending.delete(id);
+      }
+    };
+    next.then(done, done);
+    return next;
+  };
+
+  const filePath = (id: string) => {
+    if (!DOCUMENT_ID.test(id)) {
+      throw new InvalidOptionError(`Invalid document ID: ${id}`);
+    }
+    return `${dir}/${id}.automerge`;
+  };
+
+  const readStored = async (id: string): Promise<Uint8Array | undefined> => {
+    const path = filePath(id);
+    try {
+      return await accessFile(path, () => Deno.readFile(path));
+    } catch (error) {
+      if (
+        error instanceof FileAccessError &&
+        error.cause instanceof Deno.errors.NotFound
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  const readExisting = async (id: string): Promise<Uint8Array> => {
+    const binary = await readStored(id);
+    if (binary === undefined) {
+      throw new FileAccessError(
+        `Document ${id} not found`,
+        `${id}.automerge`,
+        { cause: new Deno.errors.NotFound() },
+      );
+    }
+    return binary;
+  };
+
+  const store = async (id: string, binary: Uint8Array) => {
+    await writeFileAtomically(filePath(id), binary);
+    return A.getHeads(loadDocument(binary));
+  };
+
+  const readJsonBody = async (request: Request): Promise<unknown> =>
+    parseJsonText(
+      new TextDecoder().decode(await readBody(request, maxBodySize)),
+    ).value;
+  const readBinaryBody = (request: Request): Promise<Uint8Array> =>
+    readBody(request, maxBodySize);
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const refused = refuseForeignRequest(request, {
+      hostnames,
+      origins,
+      checkOrigin: !SAFE_METHODS.has(request.method),
+    });
+    if (refused !== undefined) {
+      return refused;
+    }
+
+    let segments: string[];
+    try {
+      segments = url.pathname.split("/").slice(1).map(decodeURIComponent);
+    } catch (error) {
+      throw new InvalidOptionError(
+        `Invalid percent-encoding in path ${url.pathname}`,
+        { cause: error },
+      );
+    }
+    const [collection, id, action, ...rest] = segments;
+    const route = `${request.method} /${collection}${
+      id === undefined ? "" : action === undefined ? "/:id" : `/:id/${action}`
+    }`;
+    const requestOptions: UpdateOptions = {
+      ...options,
+      ...(url.searchParams.has("message")
+        ? { message: url.searchParams.get("message")! }
+        : {}),
+    };
+    const heads = url.searchParams.get("heads")?.split(",")
+      .map((head) => head.trim()).filter(Boolean);
+
+    if (rest.length > 0) {
+      return notFound(request);
+    }
+
+    switch (route) {
+      case "POST /json2bin":
+        return binaryResponse(
+          jsonToAutomerge(await readJsonBody(request), requestOptions),
+        );
+
+      case "POST /bin2json":
+        return jsonResponse(
+          automergeToJson(await readBinaryBody(request), {
+            ...requestOptions,
+            heads,
+          }),
+        );
+
+      case "GET /documents": {
+        const ids: string[] = [];
+        await accessFile(dir, async () => {
+          for await (const entry of Deno.readDir(dir)) {
+            const match = entry.isFile &&
+              /^(.+)\.automerge$/.exec(entry.name)?.[1];
+            if (match && DOCUMENT_ID.test(match)) {
+              ids.push(match);
+            }
+          }
+        });
+        return jsonResponse({ documents: ids.sort() });
+      }
+
+      case "POST /documents": {
+        const newId = resolveDocumentId();
+        const json = await readJsonBody(request);
+        const binary = jsonToAutomerge(json, requestOptions);
+        const newHeads = await queue(newId, () => store(newId, binary));
+        return jsonResponse({ documentId: newId, heads: newHeads }, 201, {
+          location: `/documents/${newId}`,
+        });
+      }
+
+      case "GET /documents/:id": {
+        const binary = await readExisting(id);
+        const headers = {
+          "automerge-heads": A.getHeads(loadDocument(binary)).join(","),
+        };
+        if (request.headers.get("accept")?.includes(BINARY_TYPE)) {
+          return binaryResponse(binary, headers);
+        }
+        return jsonResponse(
+          automergeToJson(binary, { ...requestOptions, heads }),
+          200,
+          headers,
+        );
+      }
+
+      case "PUT /documents/:id": {
+        filePath(id);
+        const json = await readJsonBody(request);
+        return await queue(id, async () => {
+          const existing = await readStored(id);
+          if (existing === undefined) {
+            const binary = jsonToAutomerge(json, requestOptions);
+            return jsonResponse(
+              { documentId: id, heads: await store(id, binary), changed: true },
+              201,
+            );
+          }
+          const doc = loadDocument<Record<string, unknown>>(
+            existing,
+            requestOptions,
+          );
+          const updated = updateDocumentFromJson(doc, json, requestOptions);
+          if (updated !== doc) {
+            await writeFileAtomically(filePath(id), A.save(updated));
+          }
+          return jsonResponse({
+            documentId: id,
+            heads: A.getHeads(updated),
+            changed: updated !== doc,
+          });
+        });
+      }
+
+      case "POST /documents/:id/changes": {
+        filePath(id);
+        const changes = await readBinaryBody(request);
+        return await queue(id, async () => {
+          const doc = loadDocument(await readExisting(id), requestOptions);
+          let updated: A.Doc<unknown>;
+          try {
+            updated = A.loadIncremental(doc, changes);
+          } catch (error) {
+            throw new InvalidAutomergeBinaryError(
+              `Invalid Automerge changes: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              { cause: error },
+            );
+          }
+          return jsonResponse({
+            documentId: id,
+            heads: await store(id, A.save(updated)),
+          });
+        });
+      }
+
+      case "POST /documents/:id/patch": {
+        filePath(id);
+        const patch = await readJsonBody(request) as JsonPatchOperation[];
+        return await queue(id, async () => {
+          const binary = applyJsonPatch(
+            await readExisting(id),
+            patch,
+            requestOptions,
+          );
+          return jsonResponse({
+            documentId: id,
+            heads: await store(id, binary),
+          });
+        });
+      }
+
+      default:
+        return notFound(request);
+    }
+  };
+
+  return async (request) => {
+    try {
+      return await handle(request);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+}
+
+/**
+ * Serve the HTTP API for the `.automerge` files in a directory
+ * @param dir - Directory of the stored `.automerge` files
+ * @param options - Address, request limits, and conversion and array matching
+ *   settings; bound to a loopback address, the server only answers requests
+ *   for `localhost`, `127.0.0.1` and `[::1]` unless `hostnames` says otherwise
+ * @returns The running server
+ */
+export function serveDocuments(
+  dir: string,
+  options: ServeOptions = {},
+): Deno.HttpServer<Deno.NetAddr> {
+  const { port = 8080, hostname = "127.0.0.1", signal, onListen, ...rest } =
+    options;
+  return Deno.serve(
+    { port, hostname, signal, onListen: onListen ?? (() => {}) },
+    createDocumentHandler(dir, {
+      hostnames: loopbackHostnames(hostname),
+      ...rest,
+    }),
+  );
+}
+
+/**
+ * The host names a server bound to an address answers requests for
+ * @param hostname - The address the server is bound to
+ * @returns `localhost`, `127.0.0.1` and `[::1]` for a loopback address, or
+ *   undefined for any host name
+ */
+export function loopbackHostnames(hostname: string): string[] | undefined {
+  const host = hostname.includes(":") ? `[${hostname}]` : hostname;
+  return LOOPBACK_HOSTNAMES.includes(host) ? LOOPBACK_HOSTNAMES : undefined;
+}
+
+/**
+ * Refuse a request a web page may have sent on its own behalf: one for a host
+ * name outside `hostnames`, or, with `checkOrigin`, one from a page of another
+ * origin than the server's own and `origins`. Requests without an `Origin`
+ * header do not come from a page.
+ * @param request - The request
+ * @param options - Accepted host names and origins, and whether to check the
+ *   origin
+ * @returns A 403 response, or undefined to accept the request
+ */
+export function refuseForeignRequest(
+  request: Request,
+  { hostnames, origins = [], checkOrigin = true }: {
+    hostnames?: string[];
+    origins?: string[];
+    checkOrigin?: boolean;
+  },
+): Response | undefined {
+  const url = new URL(request.url);
+  if (hostnames !== undefined && !hostnames.includes(url.hostname)) {
+    return errorResponse(
+      new InvalidOptionError(`Requests for host ${url.hostname} are refused`),
+      403,
+    );
+  }
+  const origin = request.headers.get("origin");
+  if (
+    checkOrigin && origin !== null && origin !== url.origin &&
+    !origins.includes(origin)
+  ) {
+    return errorResponse(
+      new InvalidOptionError(`Requests from origin ${origin} are refused`),
+      403,
+    );
+  }
+  return undefined;
+}
+
+/** Read a request body, giving up as soon as it grows past the limit */
+async function readBody(request: Request, limit: number): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new RequestTooLargeError(`Request body is larger than ${limit} bytes`);
+  if (Number(request.headers.get("content-length")) > limit) {
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of request.body ?? []) {
+    size += chunk.length;
+    if (size > limit) {
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+function jsonResponse(
+  value: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(stringifyLosslessJson(value), {
+    status,
+    headers: { "content-type": JSON_TYPE, ...headers },
+  });
+}
+
+function binaryResponse(
+  binary: Uint8Array,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(binary as Uint8Array<ArrayBuffer>, {
+    headers: { "content-type": BINARY_TYPE, ...headers },
+  });
+}
+
+/**
+ * Report an error as the same JSON object the CLI prints with
+ * `--error-format json`, with the HTTP status of its code
+ */
+function errorResponse(error: unknown, status?: number): Response {
+  const described = describeError(error);
+  const missing = error instanceof FileAccessError &&
+    error.cause instanceof Deno.errors.NotFound;
+  return jsonResponse(
+    { error: described },
+    status ??
+      (missing
+        ? 404
+        : error instanceof RequestTooLargeError
+        ? 413
+        : HTTP_STATUS[described.code]),
+  );
+}
+
+function notFound(request: Request): Response {
+  return errorResponse(
+    new InvalidOptionError(
+      `No endpoint ${request.method} ${new URL(request.url).pathname}`,
+    ),
+    404,
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Offline sync between copies of a document using the Automerge sync protocol
+ *
+ * Sync messages are plain byte arrays, so they can be carried as files between
+ * machines that are never online at the same time. Each side keeps its sync
+ * state with the other, so later rounds only send what changed since.
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidAutomergeBinaryError } from "./errors.ts";
+import { loadDocument } from "./jsonAutomergeConverter.ts";
+
+export interface SyncOffer {
+  /** The first message to send to the peer, or null if there is nothing to say */
+  message: Uint8Array | null;
+  /** The updated sync state to keep for the next round */
+  syncState: Uint8Array;
+}
+
+export interface SyncReply {
+  /** The document with the changes from the message applied */
+  binary: Uint8Array;
+  /** The updated sync state to keep for the next round */
+  syncState: Uint8Array;
+  /** The message to send back, or null once both sides are in sync */
+  reply: Uint8Array | null;
+  /** Number of changes the message added to the document */
+  newChanges: number;
+}
+
+/**
+ * Start a sync round with a peer
+ * @param binary - The Automerge binary of our copy
+ * @param syncState - The sync state from the previous round with this peer
+ * @returns The message to send and the sync state to keep
+ */
+export function createSyncOffer(
+  binary: Uint8Array,
+  syncState?: Uint8Array,
+): SyncOffer {
+  const doc = loadDocument(binary);
+  const [nextState, message] = A.generateSyncMessage(
+    doc,
+    decodeState(syncState),
+  );
+
+  return { message, syncState: A.encodeSyncState(nextState) };
+}
+
+/**
+ * Apply a sync message from a peer and generate the answer. Used for both the
+ * answer to an offer and any follow-up, until no reply is needed.
+ * @param binary - The Automerge binary of our copy
+ * @param message - The message received from the peer
+ * @param syncState - The sync state from the previous round with this peer
+ * @returns The updated document, sync state and the reply to send, if any
+ */
+export function receiveSyncMessage(
+  binary: Uint8Array,
+  message: Uint8Array,
+  syncState?: Uint8Array,
+): SyncReply {
+  let peerHeads: A.Heads;
+  try {
+    peerHeads = A.decodeSyncMessage(message).heads;
+  } catch (error) {
+    throw new InvalidAutomergeBinaryError(
+      `Invalid sync message: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
+
+  const doc = loadDocument(binary);
+  const known = A.topoHistoryTraversal(doc).length;
+  const [updated, receivedState] = A.receiveSyncMessage(
+    doc,
+    decodeState(syncState),
+    message,
+  );
+  const [nextState, reply] = A.generateSyncMessage(updated, receivedState);
+
+  // Persisted sync state forgets what was last sent, so the protocol alone
+  // would keep exchanging heads. Once we have exactly what the peer has,
+  // there is nothing left to tell it.
+  const inSync = sameHeads(A.getHeads(updated), peerHeads);
+
+  return {
+    binary: updated === doc ? binary : A.save(updated),
+    syncState: A.encodeSyncState(nextState),
+    reply: inSync ? null : reply,
+    newChanges: A.topoHistoryTraversal(updated).length - known,
+  };
+}
+
+function decodeState(syncState?: Uint8Array): A.SyncState {
+  if (syncState === undefined || syncState.length === 0) {
+    return A.initSyncState();
+  }
+  try {
+    return A.decodeSyncState(syncState);
+  } catch (error) {
+    throw new InvalidAutomergeBinaryError(
+      `Invalid sync state: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { cause: error },
+    );
+  }
+}
+
+function sameHeads(a: A.Heads, b: A.Heads): boolean {
+  return [...a].sort().join() === [...b].sort().join();
+}
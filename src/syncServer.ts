@@ -0,0 +1,459 @@
+/**
+ * Sync server for automerge-repo clients, backed by a directory of documents
+ *
+ * The server hosts a `Repo` that loads each `<name>.automerge` file in the
+ * directory as a document, and writes the changes clients make back to the
+ * file, so converted documents can be opened and edited live from a browser.
+ * `<name>.json` files without a matching `.automerge` file are converted when
+ * they appear, and each saved document can be mirrored as `<name>.json`.
+ *
+ * Files named after a document ID keep that ID; any other name is hashed into
+ * a stable document ID, so a file has the same automerge URL across restarts.
+ * Since anyone can compute those IDs, connections from web pages of other
+ * origins are refused like writes to the HTTP service, unless allowed.
+ */
+
+import * as A from "@automerge/automerge";
+import {
+  type BinaryDocumentId,
+  type Chunk,
+  type DocumentId,
+  isValidDocumentId,
+  parseAutomergeUrl,
+  Repo,
+  type StorageAdapterInterface,
+  type StorageKey,
+  stringifyAutomergeUrl,
+} from "@automerge/automerge-repo";
+import { createHash } from "node:crypto";
+import { accessFile, FileAccessError } from "./errors.ts";
+import { writeFileAtomically } from "./incremental.ts";
+import {
+  automergeToJson,
+  type ConversionOptions,
+  jsonToAutomerge,
+  loadDocument,
+} from "./jsonAutomergeConverter.ts";
+import { parseJsonText } from "./jsonc.ts";
+import { stringifyLosslessJson } from "./numbers.ts";
+import { loopbackHostnames, refuseForeignRequest } from "./serve.ts";
+import { WebSocketServerAdapter } from "./websocketNetwork.ts";
+
+export interface SyncedDocument {
+  /** File name of the document, without the extension */
+  name: string;
+  /** The document ID in the repo */
+  documentId: string;
+  /** The automerge URL clients open with `repo.find()` */
+  url: string;
+}
+
+export interface DirectoryStorageOptions {
+  /** Also write each saved document as `<name>.json` */
+  jsonMirrors?: boolean;
+  /** Called after a document is written back to its file */
+  onSave?: (document: SyncedDocument) => void;
+  /** Called for JSON files that cannot be imported or mirrored */
+  onError?: (error: unknown) => void;
+}
+
+export interface SyncServerOptions
+  extends ConversionOptions, DirectoryStorageOptions {
+  /** Port to listen on (default: 3030) */
+  port?: number;
+  /** Address to bind to (default: `127.0.0.1`, reachable from this host only) */
+  hostname?: string;
+  /**
+   * Host names to answer requests for (default: `localhost`, `127.0.0.1` and
+   * `[::1]` on a loopback address, any otherwise)
+   */
+  hostnames?: string[];
+  /** Origins of web pages allowed to connect, besides the server's own */
+  origins?: string[];
+  /** Stops the server when aborted; documents are saved before it finishes */
+  signal?: AbortSignal;
+  /** Milliseconds without file events before new JSON files are imported (default: 200) */
+  debounce?: number;
+  /** Called once the server listens */
+  onListen?: (address: Deno.NetAddr) => void;
+  /** Called for each JSON file converted into a document */
+  onImport?: (document: SyncedDocument) => void;
+}
+
+export interface SyncServer {
+  /** The repo the clients sync with */
+  repo: Repo;
+  /** The HTTP server accepting the WebSocket connections */
+  server: Deno.HttpServer<Deno.NetAddr>;
+  /** The documents in the directory */
+  documents(): SyncedDocument[];
+  /** Resolves once the server has stopped and every document is saved */
+  finished: Promise<void>;
+}
+
+type ChunkType = "snapshot" | "incremental";
+
+const CHUNK_TYPES: string[] = ["snapshot", "incremental"] satisfies ChunkType[];
+
+/** Milliseconds without messages about a document before it is saved */
+const SAVE_DELAY = 100;
+
+// Hidden files and the temporary files of atomic writes are skipped
+const DOCUMENT_FILE = /^([^.].*)\.(automerge|json)$/;
+
+/**
+ * automerge-repo storage that keeps each document as a single `.automerge`
+ * file in a directory. The chunks the repo saves are folded into the file, so
+ * it stays readable by every other tool. Sync states are kept in memory.
+ */
+export class AutomergeDirectoryStorage implements StorageAdapterInterface {
+  readonly dir: string;
+  #options: DirectoryStorageOptions;
+  #names = new Map<DocumentId, string>();
+  #other = new Map<string, Chunk>();
+  #writes = new Map<DocumentId, Promise<unknown>>();
+
+  /**
+   * @param dir - Directory of the `.automerge` files
+   * @param options - Mirroring and save notification settings
+   */
+  constructor(dir: string, options: DirectoryStorageOptions = {}) {
+    this.dir = dir;
+    this.#options = options;
+  }
+
+  /**
+   * Register the `.automerge` files in the directory, and convert the JSON
+   * files that have none
+   * @param options - Conversion settings for the JSON files
+   * @param onError - Called for each JSON file that cannot be imported
+   * @returns The documents imported from JSON files
+   */
+  async scan(
+    options: ConversionOptions = {},
+    onError?: (error: unknown) => void,
+  ): Promise<SyncedDocument[]> {
+    const binaries = new Set<string>();
+    const jsonFiles = new Set<string>();
+    await accessFile(this.dir, async () => {
+      for await (const entry of Deno.readDir(this.dir)) {
+        const match = entry.isFile && DOCUMENT_FILE.exec(entry.name);
+        if (match) {
+          (match[2] === "automerge" ? binaries : jsonFiles).add(match[1]);
+        }
+      }
+    });
+
+    for (const name of binaries) {
+      this.#names.set(documentIdFor(name), name);
+    }
+
+    const imported: SyncedDocument[] = [];
+    for (const name of jsonFiles) {
+      if (binaries.has(name) || this.#names.has(documentIdFor(name))) {
+        continue;
+      }
+      try {
+        const path = `${this.dir}/${name}.json`;
+        const text = await accessFile(path, () => Deno.readTextFile(path));
+        const binary = jsonToAutomerge(parseJsonText(text).value, options);
+        await writeFileAtomically(`${this.dir}/${name}.automerge`, binary);
+        this.#names.set(documentIdFor(name), name);
+        imported.push(describe(name));
+      } catch (error) {
+        onError?.(error);
+      }
+    }
+    return imported;
+  }
+
+  /**
+   * List the documents in the directory
+   * @returns The name, document ID and URL of each document
+   */
+  documents(): SyncedDocument[] {
+    return [...this.#names.values()].sort().map(describe);
+  }
+
+  /**
+   * Wait for the pending writes
+   */
+  async flush(): Promise<void> {
+    while (this.#writes.size > 0) {
+      await Promise.allSettled(this.#writes.values());
+    }
+  }
+
+  load(key: StorageKey): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.#other.get(key.join("/"))?.data);
+  }
+
+  async save(key: StorageKey, data: Uint8Array): Promise<void> {
+    if (isChunkKey(key)) {
+      await this.#fold(key[0] as DocumentId, data);
+    } else {
+      this.#other.set(key.join("/"), { key, data });
+    }
+  }
+
+  remove(key: StorageKey): Promise<void> {
+    // Chunks are already folded into the file, which is never removed
+    if (!isChunkKey(key)) {
+      this.#other.delete(key.join("/"));
+    }
+    return Promise.resolve();
+  }
+
+  async loadRange(keyPrefix: StorageKey): Promise<Chunk[]> {
+    const chunks = [...this.#other.values()].filter(({ key }) =>
+      hasPrefix(key, keyPrefix)
+    );
+
+    const [id, type] = keyPrefix;
+    const name = id === undefined
+      ? undefined
+      : this.#names.get(id as DocumentId);
+    if (name !== undefined && (type === undefined || type === "snapshot")) {
+      const path = `${this.dir}/${name}.automerge`;
+      const data = await readIfExists(path);
+      if (data !== undefined) {
+        chunks.push({ key: [id, "snapshot", name], data });
+      }
+    }
+    return chunks;
+  }
+
+  removeRange(keyPrefix: StorageKey): Promise<void> {
+    for (const [id, { key }] of this.#other) {
+      if (hasPrefix(key, keyPrefix)) {
+        this.#other.delete(id);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Add a chunk saved by the repo to the document's file, one write per
+   * document at a time
+   */
+  #fold(documentId: DocumentId, chunk: Uint8Array): Promise<unknown> {
+    if (!this.#names.has(documentId)) {
+      // A document a client created: name the file after its ID
+      this.#names.set(documentId, documentId);
+    }
+    const name = this.#names.get(documentId)!;
+    const path = `${this.dir}/${name}.automerge`;
+
+    const write = async () => {
+      const existing = await readIfExists(path);
+      const doc = existing === undefined
+        ? loadDocument(chunk)
+        : A.loadIncremental(loadDocument(existing), chunk);
+      const binary = A.save(doc);
+      await writeFileAtomically(path, binary);
+      if (this.#options.jsonMirrors) {
+        // The document is saved either way; a mirror is written on next save
+        try {
+          await writeFileAtomically(
+            `${this.dir}/${name}.json`,
+            new TextEncoder().encode(
+              stringifyLosslessJson(automergeToJson(binary), 2) + "\n",
+            ),
+          );
+        } catch (error) {
+          this.#options.onError?.(error);
+        }
+      }
+      this.#options.onSave?.(describe(name));
+    };
+
+    const next = (this.#writes.get(documentId) ?? Promise.resolve()).then(
+      write,
+      write,
+    );
+    this.#writes.set(documentId, next);
+    const done = () => {
+      if (this.#writes.get(documentId) === next) {
+        this.#writes.delete(documentId);
+      }
+    };
+    next.then(done, done);
+    return next;
+  }
+}
+
+/**
+ * Start a sync server for the documents in a directory. Clients connect with
+ * automerge-repo's WebSocket client adapter to `ws://<host>:<port>`, and a
+ * plain `GET /` lists the documents and their URLs.
+ * @param dir - Directory of the `.automerge` and `.json` files
+ * @param options - Address, storage, conversion and notification settings
+ * @returns The repo, the HTTP server and the list of documents
+ */
+export async function startSyncServer(
+  dir: string,
+  options: SyncServerOptions = {},
+): Promise<SyncServer> {
+  const {
+    port = 3030,
+    hostname = "127.0.0.1",
+    hostnames = loopbackHostnames(hostname),
+    origins,
+    debounce = 200,
+    signal,
+    onListen,
+    onImport,
+    onError,
+  } = options;
+
+  await accessFile(dir, () => Deno.mkdir(dir, { recursive: true }));
+  const storage = new AutomergeDirectoryStorage(dir, options);
+  const importNew = async () => {
+    try {
+      (await storage.scan(options, onError)).forEach((doc) => onImport?.(doc));
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+  await importNew();
+
+  const network = new WebSocketServerAdapter();
+  const repo = new Repo({
+    storage,
+    network: [network],
+    // Like automerge-repo's sync server: only sync what a client asks for
+    sharePolicy: () => Promise.resolve(false),
+  });
+
+  // The repo throttles saves with one timer for all documents, so a change to
+  // one document can cancel the pending save of another; save each document a
+  // client sends messages about on its own as well
+  const saves = new Map<DocumentId, ReturnType<typeof setTimeout>>();
+  network.on("message", (message) => {
+    if (!("documentId" in message)) {
+      return;
+    }
+    const documentId = message.documentId as DocumentId;
+    clearTimeout(saves.get(documentId));
+    saves.set(
+      documentId,
+      setTimeout(() => {
+        saves.delete(documentId);
+        if (repo.handles[documentId]?.isReady()) {
+          repo.flush([documentId]).catch((error) => onError?.(error));
+        }
+      }, SAVE_DELAY),
+    );
+  });
+
+  const server = Deno.serve({
+    port,
+    hostname,
+    signal,
+    onListen: onListen ?? (() => {}),
+  }, (request) => {
+    const upgrade = request.headers.get("upgrade")?.toLowerCase() ===
+      "websocket";
+    const refused = refuseForeignRequest(request, {
+      hostnames,
+      origins,
+      checkOrigin: upgrade,
+    });
+    if (refused !== undefined) {
+      return refused;
+    }
+    if (upgrade) {
+      return network.accept(request);
+    }
+    return Response.json({ documents: storage.documents() });
+  });
+
+  // Import JSON files dropped into the directory while the server runs
+  const watcher = Deno.watchFs(dir, { recursive: false });
+  const stopWatching = () => watcher.close();
+  signal?.addEventListener("abort", stopWatching, { once: true });
+  const watching = (async () => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let importing = Promise.resolve();
+    try {
+      for await (const event of watcher) {
+        if (
+          event.kind === "access" ||
+          !event.paths.some((path) => path.endsWith(".json"))
+        ) {
+          continue;
+        }
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          importing = importing.then(importNew);
+        }, debounce);
+      }
+    } finally {
+      clearTimeout(timer);
+      await importing;
+    }
+  })();
+
+  const finished = (async () => {
+    await server.finished;
+    stopWatching();
+    signal?.removeEventListener("abort", stopWatching);
+    await watching;
+    saves.forEach((timer) => clearTimeout(timer));
+    await repo.shutdown();
+    await storage.flush();
+  })();
+
+  return {
+    repo,
+    server,
+    documents: () => storage.documents(),
+    finished,
+  };
+}
+
+/**
+ * Document ID of a file: its name if that is a document ID, or else derived
+ * from a hash of the name
+ */
+function documentIdFor(name: string): DocumentId {
+  if (isValidDocumentId(name)) {
+    return name;
+  }
+  const bytes = new Uint8Array(
+    createHash("sha256").update(name).digest().subarray(0, 16),
+  );
+  // Document IDs must be UUIDs: mark it as a name-based (version 5) one
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return parseAutomergeUrl(
+    stringifyAutomergeUrl({ documentId: bytes as BinaryDocumentId }),
+  ).documentId;
+}
+
+function describe(name: string): SyncedDocument {
+  const documentId = documentIdFor(name);
+  return { name, documentId, url: stringifyAutomergeUrl({ documentId }) };
+}
+
+function isChunkKey(key: StorageKey): boolean {
+  return key.length === 3 && CHUNK_TYPES.includes(key[1]);
+}
+
+function hasPrefix(key: StorageKey, prefix: StorageKey): boolean {
+  return prefix.every((part, index) => key[index] === part);
+}
+
+async function readIfExists(path: string): Promise<Uint8Array | undefined> {
+  try {
+    return await accessFile(path, () => Deno.readFile(path));
+  } catch (error) {
+    if (
+      error instanceof FileAccessError &&
+      error.cause instanceof Deno.errors.NotFound
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Path-based mapping of JSON values to Automerge types
+ *
+ * A type map assigns an Automerge type to the values found at JSON Pointer or
+ * glob-style paths, e.g. `{ "/title": "text", "/stats/visits": "counter" }`.
+ * In paths, `*` matches one segment and `**` any number of segments.
+ */
+
+import * as A from "@automerge/automerge";
+import { InvalidJsonError, InvalidOptionError } from "./errors.ts";
+import { formatPointer, matchesPattern, parsePointer } from "./jsonPointer.ts";
+
+/**
+ * Automerge types a JSON value can be mapped to:
+ * - `text`: collaborative text with character-level merging (strings)
+ * - `counter`: an `A.Counter` whose concurrent increments add up (integers)
+ * - `immutable`: an `A.ImmutableString` replaced as a whole (strings)
+ */
+export type AutomergeValueType = "text" | "counter" | "immutable";
+
+/** Type mapping rules keyed by JSON Pointer or glob-style path */
+export type TypeMap = Record<string, AutomergeValueType>;
+
+/** A type map parsed for matching; the first matching rule wins */
+export type TypeRules = Array<{
+  pattern: string[];
+  type: AutomergeValueType;
+}>;
+
+const VALUE_TYPES: readonly AutomergeValueType[] = [
+  "text",
+  "counter",
+  "immutable",
+];
+
+/**
+ * Validate a type map and parse its paths for matching
+ * @param typeMap - The type mapping rules
+ * @returns The parsed rules
+ */
+export function compileTypeMap(typeMap: TypeMap): TypeRules {
+  if (
+    typeof typeMap !== "object" || typeMap === null || Array.isArray(typeMap)
+  ) {
+    throw new InvalidOptionError(
+      "Invalid type map: must be an object of path -> type",
+    );
+  }
+
+  return Object.entries(typeMap).map(([path, type]) => {
+    if (!VALUE_TYPES.includes(type)) {
+      throw new InvalidOptionError(
+        `Invalid type map: unknown type "${type}" for "${path}" (expected ${
+          VALUE_TYPES.join(", ")
+        })`,
+      );
+    }
+    return { pattern: parsePointer(path), type };
+  });
+}
+
+/**
+ * Find the Automerge type mapped to a path
+ * @param rules - The parsed type map rules
+ * @param path - The path of the value
+ * @returns The mapped type, or undefined if no rule matches
+ */
+export function typeForPath(
+  rules: TypeRules,
+  path: readonly A.Prop[],
+): AutomergeValueType | undefined {
+  return rules.find((rule) => matchesPattern(rule.pattern, path))?.type;
+}
+
+/**
+ * Wrap the values of a JSON tree in the Automerge types given by a type map.
+ * Rules apply to scalar values; objects and arrays at matching paths are
+ * traversed so that e.g. `/config/**` covers every value below `/config`.
+ * @param json - The JSON value to convert
+ * @param rules - The parsed type map rules
+ * @param path - The path of `json` within the document
+ * @returns A copy of `json` ready to be written to an Automerge document
+ */
+export function applyTypeMap(
+  json: unknown,
+  rules: TypeRules,
+  path: A.Prop[] = [],
+): unknown {
+  if (Array.isArray(json)) {
+    return json.map((item, index) =>
+      applyTypeMap(item, rules, [...path, index])
+    );
+  }
+  if (typeof json === "object" && json !== null) {
+    if (Object.getPrototypeOf(json) !== Object.prototype) {
+      // Already an Automerge value, e.g. decoded from extended JSON
+      return json;
+    }
+    return Object.fromEntries(
+      Object.entries(json).map((
+        [key, value],
+      ) => [key, applyTypeMap(value, rules, [...path, key])]),
+    );
+  }
+
+  const type = typeForPath(rules, path);
+  return type === undefined ? json : toAutomergeType(json, type, path);
+}
+
+/**
+ * Convert a single JSON value to the given Automerge type
+ * @param value - The JSON value
+ * @param type - The Automerge type to convert to
+ * @param path - The path of the value, used in error messages
+ * @returns The value to write to the document
+ */
+export function toAutomergeType(
+  value: unknown,
+  type: AutomergeValueType,
+  path: readonly A.Prop[],
+): unknown {
+  switch (type) {
+    case "text":
+      assertValueKind(typeof value === "string", "a string", type, path);
+      return value;
+    case "immutable":
+      assertValueKind(typeof value === "string", "a string", type, path);
+      return new A.ImmutableString(value as string);
+    case "counter":
+      assertValueKind(Number.isInteger(value), "an integer", type, path);
+      return new A.Counter(value as number);
+  }
+}
+
+/**
+ * Turn Automerge-specific values (counters, immutable strings, number types)
+ * back into plain JSON values
+ * @param value - A document or a value read from one
+ * @returns A plain copy of the value
+ */
+export function toPlainJson(value: unknown): unknown {
+  if (A.isCounter(value)) {
+    return (value as A.Counter).value;
+  }
+  if (
+    value instanceof A.Int || value instanceof A.Uint ||
+    value instanceof A.Float64
+  ) {
+    return value.value;
+  }
+  if (A.isImmutableString(value)) {
+    return (value as A.ImmutableString).val;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainJson);
+  }
+  if (
+    typeof value === "object" && value !== null && !(value instanceof Date) &&
+    !(value instanceof Uint8Array)
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toPlainJson(item)]),
+    );
+  }
+  return value;
+}
+
+function assertValueKind(
+  ok: boolean,
+  expected: string,
+  type: AutomergeValueType,
+  path: readonly A.Prop[],
+): void {
+  if (!ok) {
+    throw new InvalidJsonError(
+      `Invalid JSON object: type map rule "${type}" at ${
+        formatPointer(path)
+      } requires ${expected}`,
+      formatPointer(path),
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Recording the edits of a JSON file as changes to an Automerge document
+ *
+ * Each saved version of the JSON file is applied to the existing document as
+ * the minimal set of changes, so hand-edited files build up a mergeable
+ * history. Editors often save in several steps, so file events are debounced,
+ * and versions that cannot be parsed are reported and skipped.
+ */
+
+import * as A from "@automerge/automerge";
+import { accessFile, FileAccessError } from "./errors.ts";
+import { writeFileAtomically } from "./incremental.ts";
+import {
+  jsonToAutomerge,
+  loadDocument,
+  updateDocumentFromJson,
+  type UpdateOptions,
+} from "./jsonAutomergeConverter.ts";
+import { attachComments, type InputFormat, parseJsonText } from "./jsonc.ts";
+
+export interface RecordOptions extends UpdateOptions {
+  /** Syntax of the JSON file (default: `json`) */
+  inputFormat?: InputFormat;
+  /** Keep the comments of JSONC or JSON5 files in a `$comments` field */
+  keepComments?: boolean;
+}
+
+export interface WatchOptions extends RecordOptions {
+  /** Milliseconds without file events before a version is recorded (default: 200) */
+  debounce?: number;
+  /** Stops watching when aborted */
+  signal?: AbortSignal;
+  /** Called after each version is recorded */
+  onRecord?: (result: RecordResult) => void;
+  /** Called for versions that cannot be recorded; watching continues */
+  onError?: (error: unknown) => void;
+}
+
+export interface RecordResult {
+  /** Whether the JSON differed from the document */
+  changed: boolean;
+  /** Size of the Automerge file in bytes */
+  size: number;
+  /** Heads of the document after recording */
+  heads: A.Heads;
+}
+
+/**
+ * Record the current version of a JSON file as changes to the document in an
+ * Automerge file. A missing Automerge file is created. The file is written
+ * atomically, and only if the JSON differs from the document.
+ * @param jsonPath - Path to the JSON file
+ * @param binaryPath - Path to the Automerge file
+ * @param options - Optional input, conversion and array matching settings
+ * @returns Whether the document changed, and its size and heads
+ */
+export async function recordJsonFile(
+  jsonPath: string,
+  binaryPath: string,
+  options: RecordOptions = {},
+): Promise<RecordResult> {
+  const text = await accessFile(jsonPath, () => Deno.readTextFile(jsonPath));
+  const { value, comments } = parseJsonText(text, options.inputFormat);
+  const json = options.keepComments ? attachComments(value, comments) : value;
+
+  let existing: Uint8Array | undefined;
+  try {
+    existing = await accessFile(binaryPath, () => Deno.readFile(binaryPath));
+  } catch (error) {
+    if (
+      !(error instanceof FileAccessError &&
+        error.cause instanceof Deno.errors.NotFound)
+    ) {
+      throw error;
+    }
+  }
+
+  let binary: Uint8Array;
+  let heads: A.Heads;
+  if (existing === undefined) {
+    binary = jsonToAutomerge(json, options);
+    heads = A.getHeads(loadDocument(binary));
+  } else {
+    const doc = loadDocument<Record<string, unknown>>(existing, options);
+    const updated = updateDocumentFromJson(doc, json, options);
+    if (updated === doc) {
+      return { changed: false, size: existing.length, heads: A.getHeads(doc) };
+    }
+    binary = A.save(updated);
+    heads = A.getHeads(updated);
+  }
+
+  await writeFileAtomically(binaryPath, binary);
+  return { changed: true, size: binary.length, heads };
+}
+
+/**
+ * Watch a JSON file and record each saved version as changes to the document
+ * in an Automerge file, starting with the current version. Runs until the
+ * signal is aborted, recording a pending save before it returns.
+ * @param jsonPath - Path to the JSON file
+ * @param binaryPath - Path to the Automerge file
+ * @param options - Optional watch, input and conversion settings
+ */
+export async function watchJsonFile(
+  jsonPath: string,
+  binaryPath: string,
+  options: WatchOptions = {},
+): Promise<void> {
+  const { debounce = 200, signal, onRecord, onError } = options;
+  const record = async () => {
+    try {
+      onRecord?.(await recordJsonFile(jsonPath, binaryPath, options));
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  // Editors often save by renaming a new file over the old one, so watch the
+  // directory and pick out the events for the file
+  const filePath = await accessFile(jsonPath, () => Deno.realPath(jsonPath));
+  const directory = filePath.replace(/[\\/][^\\/]*$/, "") || "/";
+  const watcher = Deno.watchFs(directory, { recursive: false });
+  const stop = () => watcher.close();
+  if (signal?.aborted) {
+    stop();
+  }
+  signal?.addEventListener("abort", stop, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let recording = record();
+  try {
+    for await (const event of watcher) {
+      if (event.kind === "access" || !event.paths.includes(filePath)) {
+        continue;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        recording = recording.then(record);
+      }, debounce);
+    }
+  } finally {
+    // Record a save still waiting for the debounce instead of dropping it
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      recording = recording.then(record);
+    }
+    signal?.removeEventListener("abort", stop);
+    await recording;
+  }
+}
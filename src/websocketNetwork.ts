@@ -0,0 +1,281 @@
+/**
+ * automerge-repo network adapters for Deno WebSockets
+ *
+ * They speak the protocol of `@automerge/automerge-repo-network-websocket`:
+ * every frame is a CBOR-encoded message, and a client starts by sending a
+ * `join` message with its peer ID, which the server answers with a `peer`
+ * message carrying its own. Browser clients using the official
+ * `BrowserWebSocketClientAdapter` can therefore sync with the server adapter.
+ */
+
+import {
+  cbor,
+  type Message,
+  NetworkAdapter,
+  type PeerId,
+  type PeerMetadata,
+} from "@automerge/automerge-repo";
+
+/** The only protocol version of automerge-repo's WebSocket adapters */
+const PROTOCOL_VERSION = "1";
+
+/** Close code for unreadable frames; `close()` only takes 1000 and 3000-4999 */
+const INVALID_MESSAGE = 4000;
+
+interface JoinMessage {
+  type: "join";
+  senderId: PeerId;
+  peerMetadata: PeerMetadata;
+  supportedProtocolVersions: string[];
+}
+
+interface PeerMessage {
+  type: "peer";
+  senderId: PeerId;
+  peerMetadata: PeerMetadata;
+  selectedProtocolVersion: string;
+  targetId: PeerId;
+}
+
+interface LeaveMessage {
+  type: "leave";
+  senderId: PeerId;
+}
+
+interface ErrorMessage {
+  type: "error";
+  senderId: PeerId;
+  message: string;
+  targetId: PeerId;
+}
+
+type ProtocolMessage = JoinMessage | PeerMessage | LeaveMessage | ErrorMessage;
+
+/**
+ * Server side of the WebSocket network: accepts connections from clients and
+ * routes the repo's messages to their sockets
+ */
+export class WebSocketServerAdapter extends NetworkAdapter {
+  #sockets = new Map<PeerId, WebSocket>();
+  #ready = Promise.withResolvers<void>();
+  #isReady = false;
+
+  isReady(): boolean {
+    return this.#isReady;
+  }
+
+  whenReady(): Promise<void> {
+    return this.#ready.promise;
+  }
+
+  connect(peerId: PeerId, peerMetadata?: PeerMetadata): void {
+    this.peerId = peerId;
+    this.peerMetadata = peerMetadata;
+    this.#isReady = true;
+    this.#ready.resolve();
+  }
+
+  /**
+   * Accept a WebSocket upgrade request from a client
+   * @param request - The upgrade request
+   * @returns The response that completes the upgrade
+   */
+  accept(request: Request): Response {
+    const { socket, response } = Deno.upgradeWebSocket(request);
+    this.handleSocket(socket);
+    return response;
+  }
+
+  /**
+   * Serve a client over an already accepted WebSocket
+   * @param socket - The client's socket
+   */
+  handleSocket(socket: WebSocket): void {
+    socket.binaryType = "arraybuffer";
+    let peerId: PeerId | undefined;
+
+    socket.addEventListener("message", (event) => {
+      let message: ProtocolMessage;
+      try {
+        message = decodeMessage(event.data);
+      } catch {
+        // Not one of our frames: drop the client rather than the server
+        socket.close(INVALID_MESSAGE, "invalid message");
+        return;
+      }
+      if (message.type === "join") {
+        peerId = message.senderId;
+        this.#join(socket, message);
+      } else if (message.type === "leave") {
+        socket.close();
+      } else if (peerId !== undefined && message.senderId === peerId) {
+        // Messages claiming another sender would reach the repo as theirs
+        this.emit("message", message as unknown as Message);
+      }
+    });
+    socket.addEventListener("close", () => {
+      if (peerId !== undefined && this.#sockets.get(peerId) === socket) {
+        this.#sockets.delete(peerId);
+        this.emit("peer-disconnected", { peerId });
+      }
+    });
+  }
+
+  send(message: Message): void {
+    const socket = this.#sockets.get(message.targetId);
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(cbor.encode(message));
+    }
+  }
+
+  disconnect(): void {
+    for (const socket of this.#sockets.values()) {
+      socket.close();
+    }
+    this.#sockets.clear();
+    this.emit("close");
+  }
+
+  #join(socket: WebSocket, message: JoinMessage): void {
+    const { senderId, peerMetadata, supportedProtocolVersions } = message;
+    if (!supportedProtocolVersions?.includes(PROTOCOL_VERSION)) {
+      socket.send(cbor.encode(
+        {
+          type: "error",
+          senderId: this.peerId!,
+          message: "unsupported protocol version",
+          targetId: senderId,
+        } satisfies ErrorMessage,
+      ));
+      socket.close();
+      return;
+    }
+
+    // A peer that reconnects replaces its old socket
+    const previous = this.#sockets.get(senderId);
+    if (previous !== undefined && previous !== socket) {
+      this.#sockets.delete(senderId);
+      previous.close();
+      this.emit("peer-disconnected", { peerId: senderId });
+    }
+
+    this.#sockets.set(senderId, socket);
+    socket.send(cbor.encode(
+      {
+        type: "peer",
+        senderId: this.peerId!,
+        peerMetadata: this.peerMetadata ?? {},
+        selectedProtocolVersion: PROTOCOL_VERSION,
+        targetId: senderId,
+      } satisfies PeerMessage,
+    ));
+    this.emit("peer-candidate", { peerId: senderId, peerMetadata });
+  }
+}
+
+/**
+ * Client side of the WebSocket network: connects a repo to a sync server
+ */
+export class WebSocketClientAdapter extends NetworkAdapter {
+  readonly url: string;
+  #socket?: WebSocket;
+  #serverId?: PeerId;
+  #ready = Promise.withResolvers<void>();
+  #isReady = false;
+
+  /**
+   * @param url - The `ws:` or `wss:` URL of the sync server
+   */
+  constructor(url: string) {
+    super();
+    this.url = url;
+  }
+
+  isReady(): boolean {
+    return this.#isReady;
+  }
+
+  whenReady(): Promise<void> {
+    return this.#ready.promise;
+  }
+
+  connect(peerId: PeerId, peerMetadata?: PeerMetadata): void {
+    this.peerId = peerId;
+    this.peerMetadata = peerMetadata;
+
+    const socket = new WebSocket(this.url);
+    socket.binaryType = "arraybuffer";
+    this.#socket = socket;
+
+    socket.addEventListener("open", () => {
+      socket.send(cbor.encode(
+        {
+          type: "join",
+          senderId: peerId,
+          peerMetadata: peerMetadata ?? {},
+          supportedProtocolVersions: [PROTOCOL_VERSION],
+        } satisfies JoinMessage,
+      ));
+    });
+    socket.addEventListener("message", (event) => {
+      let message: ProtocolMessage;
+      try {
+        message = decodeMessage(event.data);
+      } catch {
+        // A broken frame from the server must not take down the process
+        socket.close(INVALID_MESSAGE, "invalid message");
+        return;
+      }
+      if (message.type === "peer") {
+        this.#serverId = message.senderId;
+        this.emit("peer-candidate", {
+          peerId: message.senderId,
+          peerMetadata: message.peerMetadata,
+        });
+        this.#markReady();
+      } else if (message.type === "error") {
+        socket.close();
+      } else if (message.type !== "join" && message.type !== "leave") {
+        this.emit("message", message as unknown as Message);
+      }
+    });
+    // Without a server the repo should not wait for one forever
+    socket.addEventListener("close", () => {
+      this.#markReady();
+      if (this.#serverId !== undefined) {
+        this.emit("peer-disconnected", { peerId: this.#serverId });
+        this.#serverId = undefined;
+      }
+    });
+  }
+
+  send(message: Message): void {
+    if (this.#socket?.readyState === WebSocket.OPEN) {
+      this.#socket.send(cbor.encode(message));
+    }
+  }
+
+  disconnect(): void {
+    const socket = this.#socket;
+    if (socket?.readyState === WebSocket.OPEN && this.peerId !== undefined) {
+      socket.send(cbor.encode(
+        { type: "leave", senderId: this.peerId } satisfies LeaveMessage,
+      ));
+    }
+    socket?.close();
+    this.emit("close");
+  }
+
+  #markReady(): void {
+    this.#isReady = true;
+    this.#ready.resolve();
+  }
+}
+
+/**
+ * Decode a frame, typed as one of the handshake messages; any other type is a
+ * repo message
+ */
+function decodeMessage(data: unknown): ProtocolMessage {
+  return cbor.decode(new Uint8Array(data as ArrayBuffer));
+}
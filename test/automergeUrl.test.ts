@@ -0,0 +1,81 @@
+/**
+ * Tests for document IDs and automerge: URLs
+ */
+
+import { assertEquals, assertMatch, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { encodeHeads, Repo } from "@automerge/automerge-repo";
+import { automergeToJson, jsonToRepoCompatible } from "@jsonAutomergeConverter";
+import { parseDocumentUrl } from "../src/automergeUrl.ts";
+import { TEST_FIXTURES } from "@testFixtures";
+
+Deno.test("Automerge URLs", async (t) => {
+  await t.step("returns the binary with a new document ID and URL", () => {
+    const { binary, documentId, url } = jsonToRepoCompatible(
+      TEST_FIXTURES.simple,
+    );
+
+    assertEquals(automergeToJson(binary), TEST_FIXTURES.simple);
+    assertMatch(documentId, /^[1-9A-HJ-NP-Za-km-z]+$/);
+    assertEquals(url, `automerge:${documentId}`);
+    assertEquals(parseDocumentUrl(url).documentId, documentId);
+  });
+
+  await t.step("imports into a repo under the returned URL", async () => {
+    const { binary, documentId, url } = jsonToRepoCompatible(
+      TEST_FIXTURES.simple,
+    );
+    const repo = new Repo();
+
+    try {
+      assertEquals(repo.import(binary, { docId: documentId }).url, url);
+      assertEquals((await repo.find(url)).doc(), TEST_FIXTURES.simple);
+    } finally {
+      await repo.shutdown();
+    }
+  });
+
+  await t.step("generates a different ID for every document", () => {
+    const first = jsonToRepoCompatible({});
+    const second = jsonToRepoCompatible({});
+
+    assertEquals(first.documentId === second.documentId, false);
+  });
+
+  await t.step("keeps a fixed document ID or URL", () => {
+    const { documentId, url } = jsonToRepoCompatible({});
+
+    assertEquals(jsonToRepoCompatible({}, { documentId }).url, url);
+    assertEquals(
+      jsonToRepoCompatible({}, { documentId: url }).documentId,
+      documentId,
+    );
+    assertThrows(
+      () => jsonToRepoCompatible({}, { documentId: "not-an-id" }),
+      Error,
+      "Invalid document ID: not-an-id",
+    );
+  });
+
+  await t.step("parses URLs pointing at a version", () => {
+    const { documentId, url } = jsonToRepoCompatible({});
+    const heads = A.getHeads(A.from({ a: 1 }));
+    // automerge-repo encodes the heads of a URL in bs58check
+    const encoded = url + "#" + encodeHeads(heads).join("|");
+
+    assertEquals(parseDocumentUrl(encoded), { documentId, url, heads });
+  });
+
+  await t.step("rejects invalid URLs", () => {
+    assertThrows(
+      () => parseDocumentUrl("https://example.com"),
+      Error,
+      "Invalid automerge URL: https://example.com",
+    );
+    assertThrows(
+      () => parseDocumentUrl("automerge:0OIl"),
+      Error,
+      "Invalid automerge URL",
+    );
+  });
+});
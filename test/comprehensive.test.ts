@@ -43,8 +43,8 @@ async function runComprehensiveTests() {
 
   // Test 3: Repo compatibility
   console.log("\n3️⃣ Testing repo compatibility");
-  const isCompatible = await testRepoCompatibility(binary);
-  console.log(`   ✓ Repo compatibility: ${isCompatible ? "PASS" : "FAIL"}`);
+  const { compatible } = await testRepoCompatibility(binary);
+  console.log(`   ✓ Repo compatibility: ${compatible ? "PASS" : "FAIL"}`);
 
   // Test 4: Manual repo test
   console.log("\n4️⃣ Testing manual repo import");
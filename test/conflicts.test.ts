@@ -0,0 +1,188 @@
+/**
+ * Tests for reporting concurrent edits
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { type Conflict, findConflicts } from "../src/conflicts.ts";
+import { InvalidOptionError } from "../src/errors.ts";
+import { mergeAutomerge } from "../src/merge.ts";
+import { VALID_ACTOR_ID } from "@testFixtures";
+
+const OTHER_ACTOR =
+  "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210";
+
+Deno.test("Conflicts", async (t) => {
+  const base = jsonToAutomerge({
+    priority: 1,
+    settings: { theme: "light" },
+    tags: ["a", "b"],
+  });
+  const ours = updateAutomergeFromJson(base, {
+    priority: 2,
+    settings: { theme: "dark" },
+    tags: ["a", "b"],
+  }, { actor: VALID_ACTOR_ID });
+  const theirs = updateAutomergeFromJson(base, {
+    priority: 3,
+    settings: { theme: "light" },
+    tags: ["a", "c"],
+  }, { actor: OTHER_ACTOR });
+  const { binary } = mergeAutomerge([ours, theirs]);
+  const merged = A.load(binary);
+
+  await t.step("lists every conflicted path with its values", () => {
+    const { doc, conflicts } = automergeToJson(binary, {
+      conflicts: "list",
+    }) as { doc: unknown; conflicts: Conflict[] };
+
+    assertEquals(doc, automergeToJson(binary));
+    assertEquals(conflicts.map(({ path }) => path), ["/priority"]);
+    const [loser, winner] = conflicts[0].values;
+    assertEquals(winner.winner, true);
+    assertEquals(loser.winner, false);
+    assertEquals(
+      [loser.actor, winner.actor].sort(),
+      [OTHER_ACTOR, VALID_ACTOR_ID].sort(),
+    );
+    assertEquals(
+      new Set([loser.value, winner.value]),
+      new Set([2, 3]),
+    );
+    assertEquals(winner.value, (doc as { priority: number }).priority);
+    assertEquals(
+      winner.opId,
+      Object.keys(A.getConflicts(merged, "priority")!).sort().at(-1),
+    );
+  });
+
+  await t.step("puts conflict markers into the JSON", () => {
+    const marked = automergeToJson(binary, { conflicts: "markers" }) as {
+      priority: { $conflict: { value: unknown; winner: boolean }[] };
+      settings: unknown;
+    };
+
+    assertEquals(marked.settings, { theme: "dark" });
+    assertEquals(
+      marked.priority.$conflict.map(({ value, winner }) => [value, winner]),
+      findConflicts(merged)[0].values.map(({ value, winner }) => [
+        value,
+        winner,
+      ]),
+    );
+  });
+
+  await t.step("escapes maps that look like markers", () => {
+    let doc = A.from<Record<string, unknown>>({
+      note: { $conflict: "not a marker" },
+      wrapped: { $map: 1 },
+    }, "aaaa");
+    let other = A.clone(doc, "bbbb");
+    doc = A.change(doc, (d) => {
+      d.mode = { $conflict: "ours" };
+    });
+    other = A.change(other, (d) => {
+      d.mode = "theirs";
+    });
+    const binary = A.save(A.merge(doc, other));
+
+    const marked = automergeToJson(binary, { conflicts: "markers" }) as {
+      note: unknown;
+      wrapped: unknown;
+      mode: { $conflict: { value: unknown }[] };
+    };
+    assertEquals(marked.note, { $map: { $conflict: "not a marker" } });
+    assertEquals(marked.wrapped, { $map: { $map: 1 } });
+    assertEquals(marked.mode.$conflict.map(({ value }) => value), [
+      { $map: { $conflict: "ours" } },
+      "theirs",
+    ]);
+
+    const extended = automergeToJson(binary, {
+      conflicts: "markers",
+      extended: true,
+    }) as Record<string, unknown>;
+    assertEquals(extended.note, { $map: { $conflict: "not a marker" } });
+    assertEquals(extended.wrapped, { $map: { $map: 1 } });
+  });
+
+  await t.step("finds conflicts nested in conflicting objects", () => {
+    let left = A.from<Record<string, unknown>>({}, "bbbb");
+    let right = A.clone(left, "aaaa");
+    left = A.change(left, (d) => {
+      d.config = { mode: "a" };
+    });
+    right = A.change(right, (d) => {
+      d.config = "none";
+    });
+    let doc = A.merge(left, right);
+    let other = A.clone(doc, "cccc");
+    doc = A.change(doc, (d) => {
+      (d.config as { mode: string }).mode = "b";
+    });
+    other = A.change(other, (d) => {
+      (d.config as { mode: string }).mode = "c";
+    });
+    doc = A.merge(doc, other);
+
+    assertEquals(findConflicts(doc).map(({ path }) => path), [
+      "/config",
+      "/config/mode",
+    ]);
+    const marked = automergeToJson(A.save(doc), { conflicts: "markers" }) as {
+      config: { $conflict: { value: unknown; actor: string }[] };
+    };
+    assertEquals(marked.config.$conflict.map(({ actor }) => actor), [
+      "aaaa",
+      "bbbb",
+    ]);
+    assertEquals(marked.config.$conflict[1].value, {
+      mode: {
+        $conflict: [
+          { value: "b", actor: "bbbb", opId: "6@bbbb", winner: false },
+          { value: "c", actor: "cccc", opId: "6@cccc", winner: true },
+        ],
+      },
+    });
+  });
+
+  await t.step("reads conflicts as of earlier heads", () => {
+    const { conflicts } = automergeToJson(binary, {
+      conflicts: "list",
+      withMeta: true,
+      heads: A.getHeads(A.load(ours)),
+    }) as { conflicts: Conflict[] };
+
+    assertEquals(conflicts, []);
+  });
+
+  await t.step("writes conflicting values as extended JSON", () => {
+    let doc = A.from<Record<string, unknown>>({}, "aaaa");
+    let other = A.clone(doc, "bbbb");
+    doc = A.change(doc, (d) => {
+      d.visits = new A.Counter(1);
+    });
+    other = A.change(other, (d) => {
+      d.visits = 5;
+    });
+
+    const [{ values }] = findConflicts(A.merge(doc, other), undefined, true);
+    assertEquals(values.map(({ value }) => value), [{ $counter: 1 }, 5]);
+  });
+
+  await t.step("rejects unknown modes", () => {
+    assertThrows(
+      () =>
+        automergeToJson(binary, {
+          conflicts: "inline" as "list",
+        }),
+      InvalidOptionError,
+      "Invalid conflicts mode",
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for deterministic conversion
+ */
+
+import { assertEquals, assertMatch, assertNotEquals } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { deriveActorId, hashAutomergeBinary } from "../src/deterministic.ts";
+import { VALID_ACTOR_ID } from "@testFixtures";
+
+Deno.test("Deterministic conversion", async (t) => {
+  const json = { title: "Notes", tags: ["a", "b"], count: 3 };
+
+  await t.step("gives byte-identical output for identical JSON", () => {
+    const first = jsonToAutomerge(json, { deterministic: true });
+    const second = jsonToAutomerge({
+      count: 3,
+      tags: ["a", "b"],
+      title: "Notes",
+    }, {
+      deterministic: true,
+    });
+
+    assertEquals(first, second);
+    assertEquals(hashAutomergeBinary(first), hashAutomergeBinary(second));
+    assertNotEquals(
+      jsonToAutomerge({ ...json, count: 4 }, { deterministic: true }),
+      first,
+    );
+  });
+
+  await t.step("derives the actor from the seed or the JSON", () => {
+    const doc = A.load(jsonToAutomerge(json, { deterministic: true }));
+    const [change] = A.getAllChanges(doc).map(A.decodeChange);
+    assertMatch(change.actor, /^[0-9a-f]{32}$/);
+    assertEquals(change.time, 0);
+
+    const seeded = A.load(
+      jsonToAutomerge(json, { deterministic: true, seed: "import-1" }),
+    );
+    assertEquals(
+      A.getAllChanges(seeded).map(A.decodeChange)[0].actor,
+      deriveActorId("import-1"),
+    );
+
+    const explicit = A.load(
+      jsonToAutomerge(json, { deterministic: true, actor: VALID_ACTOR_ID }),
+    );
+    assertEquals(
+      A.getAllChanges(explicit).map(A.decodeChange)[0].actor,
+      VALID_ACTOR_ID,
+    );
+  });
+
+  await t.step("makes updates reproducible too", () => {
+    const base = jsonToAutomerge(json, { deterministic: true });
+    const update = () =>
+      updateAutomergeFromJson(base, { ...json, count: 4 }, {
+        deterministic: true,
+      });
+
+    assertEquals(update(), update());
+  });
+
+  await t.step("hashes binaries with SHA-256", () => {
+    assertEquals(
+      hashAutomergeBinary(new Uint8Array()),
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    );
+  });
+});
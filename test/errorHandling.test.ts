@@ -10,6 +10,15 @@ import {
   validateAutomergeBinary,
   writeJsonAsAutomerge,
 } from "@jsonAutomergeConverter";
+import {
+  ActorIdError,
+  ConverterError,
+  EmptyBinaryError,
+  FileAccessError,
+  InvalidAutomergeBinaryError,
+  InvalidJsonError,
+  InvalidOptionError,
+} from "../src/errors.ts";
 import { EMPTY_BINARY, INVALID_BINARIES, TEST_FIXTURES } from "@testFixtures";
 import { cleanupTempDir, createTempTestDir } from "@testUtils";
 
@@ -62,10 +71,15 @@ Deno.test("JSON validation errors", async (t) => {
     assertEquals(binary instanceof Uint8Array, true);
   });
 
-  await t.step("rejects undefined inputs but accepts null", () => {
-    // null is valid JSON
-    const nullBinary = jsonToAutomerge(null, { validateJson: true });
-    assertEquals(nullBinary instanceof Uint8Array, true);
+  await t.step("rejects undefined inputs and scalar roots", () => {
+    // null is valid JSON, but not a document
+    for (const root of [null, 42, true, "text"]) {
+      assertThrows(
+        () => jsonToAutomerge(root),
+        InvalidJsonError,
+        "the root must be an object or array",
+      );
+    }
 
     // undefined is not valid JSON
     assertThrows(
@@ -242,3 +256,104 @@ Deno.test("Memory and performance edge cases", async (t) => {
     assertEquals(binary instanceof Uint8Array, true);
   });
 });
+
+Deno.test("Error classes and codes", async (t) => {
+  await t.step("reports invalid JSON with its path", () => {
+    const error = assertThrows(
+      () =>
+        jsonToAutomerge({ visits: "many" }, {
+          typeMap: { "/visits": "counter" },
+        }),
+      InvalidJsonError,
+    );
+    assertEquals(error.code, "INVALID_JSON");
+    assertEquals(error.path, "/visits");
+  });
+
+  await t.step("tells empty binaries from corrupt ones", () => {
+    assertEquals(
+      assertThrows(() => automergeToJson(EMPTY_BINARY), EmptyBinaryError).code,
+      "EMPTY_BINARY",
+    );
+    const error = assertThrows(
+      () => automergeToJson(INVALID_BINARIES.random),
+      InvalidAutomergeBinaryError,
+      "Invalid Automerge binary",
+    );
+    assertEquals(error.code, "INVALID_BINARY");
+    assertEquals(error instanceof ConverterError, true);
+  });
+
+  await t.step("rejects malformed actor IDs up front", () => {
+    const error = assertThrows(
+      () => jsonToAutomerge(TEST_FIXTURES.simple, { actor: "abc" }),
+      ActorIdError,
+      'Invalid actor ID "abc"',
+    );
+    assertEquals(error.actor, "abc");
+    assertThrows(
+      () =>
+        automergeToJson(jsonToAutomerge(TEST_FIXTURES.simple), {
+          actor: "xyz1",
+        }),
+      ActorIdError,
+    );
+  });
+
+  await t.step("reports the file that could not be accessed", async () => {
+    const path = "/path/that/does/not/exist.automerge";
+    const error = await assertRejects(
+      () => readAutomergeAsJson(path),
+      FileAccessError,
+      `Cannot access ${path}`,
+    );
+    assertEquals(error.code, "FILE_ACCESS");
+    assertEquals(error.path, path);
+    assertEquals(error.cause instanceof Deno.errors.NotFound, true);
+  });
+
+  await t.step("reports invalid options", () => {
+    const binary = jsonToAutomerge(TEST_FIXTURES.simple);
+    assertThrows(
+      () => automergeToJson(binary, { heads: ["nope"] }),
+      InvalidOptionError,
+      "Invalid heads",
+    );
+  });
+
+  await t.step(
+    "exits as an invalid option for broken option files",
+    async () => {
+      const tempDir = await createTempTestDir();
+      try {
+        await Deno.writeTextFile(`${tempDir}/input.json`, '{"a": 1}');
+        await Deno.writeTextFile(`${tempDir}/broken.json`, "{");
+
+        for (const flag of ["--type-map", "--numbers", "--schema"]) {
+          const { code, stderr } = await new Deno.Command(Deno.execPath(), {
+            args: [
+              "run",
+              "-A",
+              new URL("../src/cli.ts", import.meta.url).pathname,
+              "json2bin",
+              "-i",
+              `${tempDir}/input.json`,
+              "-o",
+              `${tempDir}/output.automerge`,
+              flag,
+              `${tempDir}/broken.json`,
+              "--error-format",
+              "json",
+            ],
+            stdout: "null",
+          }).output();
+          const { error } = JSON.parse(new TextDecoder().decode(stderr));
+
+          assertEquals([code, error.code], [2, "INVALID_OPTION"]);
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    },
+  );
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for the lossless extended JSON encoding
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { InvalidJsonError } from "../src/errors.ts";
+import { encodeValue, type FullValue } from "../src/extendedJson.ts";
+
+const EXTENDED_DATA = {
+  title: "Report",
+  created: { $timestamp: "2025-08-29T00:00:00.000Z" },
+  thumbnail: { $bytes: "AQID/w==" },
+  views: { $counter: 12 },
+  id: { $immutable: "doc-1" },
+  size: { $uint: 42 },
+  ratio: { $f64: 2 },
+  score: 0.75,
+  count: 7,
+  limit: { $f64: "Infinity" },
+  zero: { $f64: "-0" },
+  nested: [{ at: { $timestamp: "2025-01-01T12:30:00.000Z" } }],
+};
+
+Deno.test("Extended JSON encoding", async (t) => {
+  await t.step("decodes tagged values into Automerge types", () => {
+    const binary = jsonToAutomerge(EXTENDED_DATA, { extended: true });
+    const doc = A.load<Record<string, unknown>>(binary);
+    const backend = A.getBackend(doc);
+
+    assertEquals(doc.created, new Date("2025-08-29T00:00:00.000Z"));
+    assertEquals(doc.thumbnail, new Uint8Array([1, 2, 3, 255]));
+    assertEquals(A.isCounter(doc.views), true);
+    assertEquals(A.isImmutableString(doc.id), true);
+    assertEquals(backend.getWithType("_root", "size"), ["uint", 42]);
+    assertEquals(backend.getWithType("_root", "ratio"), ["f64", 2]);
+    assertEquals(backend.getWithType("_root", "count"), ["int", 7]);
+    assertEquals(Object.is(doc.zero, -0), true);
+  });
+
+  await t.step("round trips every value through extended JSON", () => {
+    const binary = jsonToAutomerge(EXTENDED_DATA, { extended: true });
+    const restored = automergeToJson(binary, { extended: true });
+
+    assertEquals(restored, EXTENDED_DATA);
+    assertEquals(
+      automergeToJson(jsonToAutomerge(restored, { extended: true }), {
+        extended: true,
+      }),
+      EXTENDED_DATA,
+    );
+  });
+
+  await t.step("accepts epoch milliseconds for timestamps", () => {
+    const binary = jsonToAutomerge({ at: { $timestamp: 0 } }, {
+      extended: true,
+    });
+
+    assertEquals(automergeToJson(binary, { extended: true }), {
+      at: { $timestamp: "1970-01-01T00:00:00.000Z" },
+    });
+  });
+
+  await t.step("leaves unknown and multi-key $ objects alone", () => {
+    const data = { a: { $other: 1 }, b: { $counter: 1, extra: true } };
+    const binary = jsonToAutomerge(data, { extended: true });
+
+    assertEquals(automergeToJson(binary, { extended: true }), data);
+  });
+
+  await t.step("escapes maps that look like tagged values", () => {
+    const data = { query: { $int: 5 }, meta: { $bytes: "AQID" } };
+    const escaped = {
+      query: { $map: { $int: 5 } },
+      meta: { $map: { $bytes: "AQID" } },
+    };
+
+    const extended = automergeToJson(jsonToAutomerge(data), {
+      extended: true,
+    });
+    assertEquals(extended, escaped);
+
+    const copy = jsonToAutomerge(extended, { extended: true });
+    assertEquals(automergeToJson(copy), data);
+    assertEquals(automergeToJson(copy, { extended: true }), escaped);
+    assertEquals(
+      automergeToJson(
+        jsonToAutomerge({ wrapped: { $map: { $map: {} } } }, {
+          extended: true,
+        }),
+      ),
+      { wrapped: { $map: {} } },
+    );
+  });
+
+  await t.step("reports invalid tag payloads with their path", () => {
+    assertThrows(
+      () => jsonToAutomerge({ list: [{ $counter: "x" }] }, { extended: true }),
+      Error,
+      "Invalid extended JSON at /list/0: $counter requires an integer",
+    );
+    assertThrows(
+      () => jsonToAutomerge({ at: { $timestamp: "soon" } }, { extended: true }),
+      Error,
+      "$timestamp requires an ISO date or epoch ms",
+    );
+    assertThrows(
+      () => jsonToAutomerge({ x: { $f64: "NaN" } }, { extended: true }),
+      Error,
+      "$f64 requires a number, infinity or -0",
+    );
+    const error = assertThrows(
+      () => jsonToAutomerge({ big: { $int: 2 ** 60 } }, { extended: true }),
+      InvalidJsonError,
+      "$int requires an integer within ±9007199254740991",
+    );
+    assertEquals(error.path, "/big");
+  });
+
+  await t.step("round trips uint values through the API", () => {
+    const binary = jsonToAutomerge(
+      { size: { $uint: 4 }, count: { $uint: 5n } },
+      {
+        extended: true,
+      },
+    );
+    const restored = automergeToJson(binary, { extended: true });
+
+    assertEquals(restored, { size: { $uint: 4 }, count: { $uint: 5 } });
+    assertEquals(JSON.parse(JSON.stringify(restored)), restored);
+    assertEquals(
+      automergeToJson(jsonToAutomerge(restored, { extended: true }), {
+        extended: true,
+      }),
+      restored,
+    );
+
+    // Backends that return 64-bit integers as bigints
+    const backend = A.getBackend(A.load(binary));
+    const uint = ["uint", 4n] as unknown as FullValue;
+    assertEquals(encodeValue(backend, uint, undefined, true), { $uint: 4 });
+    assertEquals(encodeValue(backend, uint, undefined, false), 4);
+  });
+
+  await t.step("plain mode returns plain JSON values", () => {
+    const binary = jsonToAutomerge(EXTENDED_DATA, { extended: true });
+    const restored = automergeToJson(binary) as Record<string, unknown>;
+
+    assertEquals(restored.views, 12);
+    assertEquals(restored.id, "doc-1");
+  });
+
+  await t.step("updates documents from extended JSON", () => {
+    const base = jsonToAutomerge(EXTENDED_DATA, { extended: true });
+    const next = { ...EXTENDED_DATA, views: { $counter: 15 } };
+
+    const updated = updateAutomergeFromJson(base, next, { extended: true });
+    const changes = A.getAllChanges(A.load(updated));
+    const ops = A.decodeChange(changes[changes.length - 1]).ops;
+
+    assertEquals(automergeToJson(updated, { extended: true }), next);
+    assertEquals(ops.map((op) => op.action), ["inc"]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for listing the change history of Automerge binaries
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { jsonToAutomerge } from "@jsonAutomergeConverter";
+import { getHistory } from "../src/history.ts";
+import { TEST_FIXTURES, VALID_ACTOR_ID } from "@testFixtures";
+
+Deno.test("Change history", async (t) => {
+  let doc = A.load<Record<string, unknown>>(
+    jsonToAutomerge(TEST_FIXTURES.simple, { actor: VALID_ACTOR_ID }),
+    VALID_ACTOR_ID,
+  );
+  doc = A.change(doc, { message: "Bump number", time: 1756425600 }, (d) => {
+    d.number = 43;
+  });
+  const binary = A.save(doc);
+
+  await t.step("lists every change with its metadata", () => {
+    const history = getHistory(binary);
+
+    assertEquals(history.length, 2);
+    assertEquals(history[0].actor, VALID_ACTOR_ID);
+    assertEquals(history[0].seq, 1);
+    assertEquals(history[0].deps, []);
+    assertEquals(history[1].seq, 2);
+    assertEquals(history[1].message, "Bump number");
+    assertEquals(history[1].time, 1756425600);
+    assertEquals(history[1].deps, [history[0].hash]);
+    assertEquals(history[1].opCount, 1);
+    assertEquals(
+      history.map((change) => change.hash),
+      A.topoHistoryTraversal(doc),
+    );
+  });
+
+  await t.step("decodes operations only when requested", () => {
+    assertEquals(getHistory(binary)[1].ops, undefined);
+
+    const [, change] = getHistory(binary, { ops: true });
+    assertEquals(change.ops?.length, 1);
+    assertEquals(change.ops?.[0].action, "set");
+    assertEquals(change.ops?.[0].key, "number");
+    assertEquals(change.ops?.[0].value, 43);
+  });
+
+  await t.step("rejects empty and invalid binaries", () => {
+    assertThrows(() => getHistory(new Uint8Array()), Error, "Empty binary");
+    assertThrows(() => getHistory(new Uint8Array([1, 2, 3, 4, 5])));
+  });
+});
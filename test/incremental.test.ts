@@ -0,0 +1,83 @@
+/**
+ * Tests for appending changes to Automerge files and compacting them
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { readAutomergeAsJson } from "@jsonAutomergeConverter";
+import {
+  appendJsonToAutomergeFile,
+  compactAutomergeFile,
+} from "../src/incremental.ts";
+import { TEST_FIXTURES, VALID_ACTOR_ID } from "@testFixtures";
+
+Deno.test("Incremental Automerge files", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  const testFile = `${tempDir}/document.automerge`;
+  const first = { ...TEST_FIXTURES.simple };
+  const second = { ...TEST_FIXTURES.simple, number: 43 };
+  const third = { ...second, items: [{ id: 1, name: "first" }] };
+
+  try {
+    await t.step("creates a missing file with a full snapshot", async () => {
+      const written = await appendJsonToAutomergeFile(testFile, first, {
+        actor: VALID_ACTOR_ID,
+      });
+
+      assertEquals(written, (await Deno.stat(testFile)).size);
+      assertEquals(await readAutomergeAsJson(testFile), first);
+    });
+
+    await t.step("appends only the new changes", async () => {
+      const before = await Deno.readFile(testFile);
+      const written = await appendJsonToAutomergeFile(testFile, second, {
+        message: "Bump number",
+      });
+      const after = await Deno.readFile(testFile);
+
+      assertEquals(after.length, before.length + written);
+      assertEquals(after.subarray(0, before.length), before);
+      assertEquals(await readAutomergeAsJson(testFile), second);
+
+      await appendJsonToAutomergeFile(testFile, third);
+      assertEquals(await readAutomergeAsJson(testFile), third);
+    });
+
+    await t.step("writes nothing when the JSON is unchanged", async () => {
+      const size = (await Deno.stat(testFile)).size;
+
+      assertEquals(await appendJsonToAutomergeFile(testFile, third), 0);
+      assertEquals((await Deno.stat(testFile)).size, size);
+    });
+
+    await t.step("folds the chunks into one snapshot", async () => {
+      const appended = await Deno.readFile(testFile);
+      const compactFile = `${tempDir}/compact.automerge`;
+      const { before, after } = await compactAutomergeFile(
+        testFile,
+        compactFile,
+      );
+
+      assertEquals(before, appended.length);
+      assertEquals(after, (await Deno.stat(compactFile)).size);
+      assertEquals(await readAutomergeAsJson(compactFile), third);
+      assertEquals(
+        A.getHeads(A.load(await Deno.readFile(compactFile))),
+        A.getHeads(A.load(appended)),
+      );
+    });
+
+    await t.step("compacts in place by default", async () => {
+      await compactAutomergeFile(testFile);
+
+      assertEquals(await readAutomergeAsJson(testFile), third);
+      const entries = [];
+      for await (const entry of Deno.readDir(tempDir)) {
+        entries.push(entry.name);
+      }
+      assert(!entries.some((name) => name.endsWith(".tmp")));
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
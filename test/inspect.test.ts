@@ -0,0 +1,97 @@
+/**
+ * Tests for inspecting Automerge binaries
+ */
+
+import { assertEquals, assertMatch } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { inspectAutomergeBinary } from "../src/inspect.ts";
+import { EMPTY_BINARY, INVALID_BINARIES } from "@testFixtures";
+
+Deno.test("Binary inspection", async (t) => {
+  let doc = A.from<Record<string, unknown>>({
+    items: [1, 2],
+    title: "hello",
+    id: new A.ImmutableString("doc-1"),
+  }, { actor: "aaaa" });
+  const heads = A.getHeads(doc);
+  doc = A.change(A.clone(doc, "bbbb"), (d) => {
+    d.meta = { done: true };
+  });
+  // A snapshot followed by an appended change chunk
+  const binary = new Uint8Array([
+    ...A.save(A.view(doc, heads)),
+    ...A.saveSince(doc, heads),
+  ]);
+
+  await t.step("reports the chunks and contents of a document", async () => {
+    const report = await inspectAutomergeBinary(binary);
+
+    assertEquals(report.valid, true);
+    assertEquals(report.size, binary.length);
+    assertEquals(report.chunks.map(({ type }) => type), ["document", "change"]);
+    assertEquals(report.chunks[1].offset, report.chunks[0].size);
+    assertEquals(report.changes, 2);
+    assertEquals(report.actors, ["aaaa", "bbbb"]);
+    assertEquals(report.heads, A.getHeads(doc));
+    // The root, the list, the text and the new map
+    assertEquals(report.objects, 4);
+    assertEquals(report.operations, A.stats(doc).numOps);
+    assertEquals(
+      report.uncompressedSize,
+      A.getAllChanges(doc).reduce((size, change) => size + change.length, 0),
+    );
+    assertEquals(report.error, undefined);
+  });
+
+  await t.step("tells empty data and random bytes apart", async () => {
+    assertEquals(
+      (await inspectAutomergeBinary(EMPTY_BINARY)).error?.kind,
+      "empty",
+    );
+
+    const { valid, error } = await inspectAutomergeBinary(
+      INVALID_BINARIES.random,
+    );
+    assertEquals(valid, false);
+    assertEquals(error?.kind, "invalid-magic");
+    assertEquals(error?.offset, 0);
+  });
+
+  await t.step("reports where a file is truncated", async () => {
+    const { chunks, error } = await inspectAutomergeBinary(
+      binary.subarray(0, binary.length - 5),
+    );
+
+    assertEquals(chunks.map(({ type }) => type), ["document"]);
+    assertEquals(error?.kind, "truncated");
+    assertEquals(error?.offset, chunks[0].size);
+    assertMatch(
+      error!.message,
+      /needs \d+ bytes of data, but only \d+ are left/,
+    );
+  });
+
+  await t.step("detects corrupt data with the checksum", async () => {
+    const corrupt = binary.slice();
+    corrupt[30] ^= 0xff;
+    const { error } = await inspectAutomergeBinary(corrupt);
+
+    assertEquals(error?.kind, "checksum-mismatch");
+    assertEquals(error?.offset, 4);
+  });
+
+  await t.step("recognizes other chunk types and formats", async () => {
+    const unknownType = binary.slice();
+    unknownType[8] = 7;
+    assertEquals(
+      (await inspectAutomergeBinary(unknownType)).error?.kind,
+      "unknown-chunk-type",
+    );
+
+    const [, message] = A.generateSyncMessage(doc, A.initSyncState());
+    assertMatch(
+      (await inspectAutomergeBinary(message!)).error!.message,
+      /looks like an Automerge sync message/,
+    );
+  });
+});
@@ -3,10 +3,12 @@
  */
 
 import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
 import {
   automergeToJson,
   jsonToAutomerge,
   testRepoCompatibility,
+  updateAutomergeFromJson,
   validateAutomergeBinary,
 } from "@jsonAutomergeConverter";
 
@@ -107,6 +109,57 @@ Deno.test("Automerge to JSON conversion", async (t) => {
   });
 });
 
+Deno.test("Change message and time", async (t) => {
+  const changeMeta = (binary: Uint8Array) =>
+    A.getChangesMetaSince(A.load(binary), []).at(-1)!;
+
+  await t.step("records message and time on the initial change", () => {
+    const binary = jsonToAutomerge(SIMPLE_DATA, {
+      message: "Import from CRM",
+      time: new Date("2025-06-01T12:00:00Z"),
+    });
+
+    const meta = changeMeta(binary);
+    assertEquals(meta.message, "Import from CRM");
+    assertEquals(meta.time, Date.UTC(2025, 5, 1, 12) / 1000);
+    assertEquals(automergeToJson(binary), SIMPLE_DATA);
+  });
+
+  await t.step("accepts seconds since the epoch", () => {
+    const binary = jsonToAutomerge(SIMPLE_DATA, { time: 1700000000 });
+
+    assertEquals(changeMeta(binary).time, 1700000000);
+  });
+
+  await t.step("records message and time on updates", () => {
+    const base = jsonToAutomerge(SIMPLE_DATA);
+    const updated = updateAutomergeFromJson(
+      base,
+      { ...SIMPLE_DATA, number: 7 },
+      { message: "Sync", time: 1700000000 },
+    );
+
+    assertEquals(changeMeta(updated).message, "Sync");
+    assertEquals(changeMeta(updated).time, 1700000000);
+  });
+
+  await t.step("defaults to no message and the current time", () => {
+    const before = Math.floor(Date.now() / 1000);
+    const meta = changeMeta(jsonToAutomerge(SIMPLE_DATA));
+
+    assertEquals(meta.message, null);
+    assertEquals(meta.time >= before, true);
+  });
+
+  await t.step("rejects invalid times", () => {
+    assertThrows(
+      () => jsonToAutomerge(SIMPLE_DATA, { time: new Date("nope") }),
+      Error,
+      "Invalid change time",
+    );
+  });
+});
+
 Deno.test("Binary validation", async (t) => {
   await t.step("validates correct Automerge binary", () => {
     const binary = jsonToAutomerge(SIMPLE_DATA);
@@ -197,13 +250,26 @@ Deno.test("Edge cases and data types", async (t) => {
   });
 });
 
-Deno.test({
-  name: "Repository compatibility",
-  ignore: true, // Automerge-repo has timer leaks in Deno tests
-  fn: async () => {
+Deno.test("Repository compatibility", async (t) => {
+  await t.step("round-trips through a repo without leaking", async () => {
     const binary = jsonToAutomerge(SIMPLE_DATA);
-    const isCompatible = await testRepoCompatibility(binary);
 
-    assertEquals(isCompatible, true);
-  },
+    assertEquals(await testRepoCompatibility(binary), {
+      compatible: true,
+      headsMatch: true,
+      contentMatches: true,
+      exportMatches: true,
+      problems: [],
+    });
+  });
+
+  await t.step("explains why a binary is not compatible", async () => {
+    const { compatible, problems } = await testRepoCompatibility(
+      new Uint8Array([1, 2, 3]),
+    );
+
+    assertEquals(compatible, false);
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0].startsWith("The binary cannot be loaded"), true);
+  });
 });
@@ -0,0 +1,194 @@
+/**
+ * Tests for applying JSON Patch documents to Automerge binaries
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson, jsonToAutomerge } from "@jsonAutomergeConverter";
+import { applyJsonPatch, diffAsJsonPatch } from "../src/jsonPatch.ts";
+
+Deno.test("JSON Patch", async (t) => {
+  const binary = jsonToAutomerge({
+    title: "Groceries",
+    items: ["milk", "eggs", "bread"],
+    meta: { owner: "sam", tags: ["home"] },
+  });
+
+  await t.step("applies every operation as a single change", () => {
+    const patched = applyJsonPatch(binary, [
+      { op: "add", path: "/items/1", value: "butter" },
+      { op: "add", path: "/items/-", value: "jam" },
+      { op: "remove", path: "/items/0" },
+      { op: "replace", path: "/title", value: "Shopping" },
+      { op: "copy", from: "/meta/tags", path: "/tags" },
+      { op: "move", from: "/meta/owner", path: "/owner" },
+      { op: "test", path: "/tags", value: ["home"] },
+    ], { message: "Patch from backend" });
+
+    assertEquals(automergeToJson(patched), {
+      title: "Shopping",
+      items: ["butter", "eggs", "bread", "jam"],
+      meta: { tags: ["home"] },
+      tags: ["home"],
+      owner: "sam",
+    });
+    const history = A.getHistory(A.load(patched));
+    assertEquals(history.length, 2);
+    assertEquals(history[1].change.message, "Patch from backend");
+  });
+
+  await t.step("inserts and deletes array elements in place", () => {
+    const doc = A.load<{ items: string[] }>(binary);
+    const patched = A.load<{ items: string[] }>(applyJsonPatch(binary, [
+      { op: "add", path: "/items/0", value: "tea" },
+      { op: "remove", path: "/items/2" },
+    ]));
+
+    // Elements that were kept still merge with concurrent edits
+    const concurrent = A.change(doc, (d) => {
+      d.items[2] = "rye bread";
+    });
+    assertEquals(A.merge(patched, concurrent).items, [
+      "tea",
+      "milk",
+      "rye bread",
+    ]);
+  });
+
+  await t.step("replaces the whole document at the root", () => {
+    const patched = applyJsonPatch(binary, [
+      { op: "replace", path: "", value: { fresh: true } },
+    ]);
+
+    assertEquals(automergeToJson(patched), { fresh: true });
+  });
+
+  await t.step("supports type maps and extended JSON values", () => {
+    const patched = applyJsonPatch(binary, [
+      { op: "add", path: "/visits", value: 3 },
+      { op: "add", path: "/at", value: { $timestamp: "2025-01-01T00:00:00Z" } },
+    ], { typeMap: { "/visits": "counter" }, extended: true });
+    const doc = A.load<{ visits: A.Counter; at: Date }>(patched);
+
+    assertEquals(A.isCounter(doc.visits), true);
+    assertEquals(doc.at, new Date("2025-01-01T00:00:00Z"));
+  });
+
+  await t.step("tests values with Automerge number types", () => {
+    const ratio = applyJsonPatch(binary, [
+      { op: "add", path: "/ratio", value: { $f64: 1.5 } },
+      { op: "test", path: "/ratio", value: { $f64: 1.5 } },
+    ], { extended: true });
+    assertEquals((automergeToJson(ratio) as { ratio: number }).ratio, 1.5);
+
+    const price = applyJsonPatch(binary, [
+      { op: "add", path: "/price", value: 2 },
+      { op: "test", path: "/price", value: 2 },
+    ], { numbers: { paths: { "/price": "float" } } });
+    assertEquals((automergeToJson(price) as { price: number }).price, 2);
+  });
+
+  await t.step("reports the failing path", () => {
+    assertThrows(
+      () => applyJsonPatch(binary, [{ op: "remove", path: "/meta/missing" }]),
+      Error,
+      "/meta/missing does not exist",
+    );
+    assertThrows(
+      () => applyJsonPatch(binary, [{ op: "add", path: "/items/9", value: 1 }]),
+      Error,
+      "/items/9 is not a valid index",
+    );
+    assertThrows(
+      () => applyJsonPatch(binary, [{ op: "add", path: "items", value: 1 }]),
+      Error,
+      'must start with "/"',
+    );
+    assertThrows(
+      () =>
+        applyJsonPatch(binary, [{
+          op: "move",
+          from: "/meta",
+          path: "/meta/x",
+        }]),
+      Error,
+      "cannot move /meta into itself",
+    );
+  });
+
+  await t.step("fails the whole patch when a test fails", () => {
+    assertThrows(
+      () =>
+        applyJsonPatch(binary, [
+          { op: "replace", path: "/title", value: "Changed" },
+          { op: "test", path: "/items/0", value: "bread" },
+        ]),
+      Error,
+      'JSON Patch test failed at "/items/0" (operation 1): expected "bread", found "milk"',
+    );
+  });
+});
+
+Deno.test("Changes as JSON Patch", async (t) => {
+  let doc = A.from<{
+    title: string;
+    items: number[];
+    visits: A.Counter;
+    meta: Record<string, unknown>;
+  }>({ title: "hello", items: [1, 2, 3], visits: new A.Counter(1), meta: {} });
+  const before = A.getHeads(doc);
+  doc = A.change(doc, (d) => {
+    A.splice(d, ["title"], 0, 1, "J");
+    d.items.splice(1, 1);
+    d.items.push(4);
+    d.visits.increment(2);
+    d.meta.owner = { name: "sam" };
+  });
+  const binary = A.save(doc);
+
+  await t.step("describes the changes between two versions", () => {
+    assertEquals(diffAsJsonPatch(binary, before), [
+      { op: "replace", path: "/visits", value: 3 },
+      { op: "replace", path: "/title", value: "Jello" },
+      { op: "remove", path: "/items/1" },
+      { op: "add", path: "/items/2", value: 4 },
+      { op: "add", path: "/meta/owner", value: {} },
+      { op: "add", path: "/meta/owner/name", value: "sam" },
+    ]);
+  });
+
+  await t.step("replays on a plain JSON copy of the earlier version", () => {
+    const earlier = automergeToJson(binary, { heads: before });
+    const operations = diffAsJsonPatch(binary, before, A.getHeads(doc));
+
+    assertEquals(
+      automergeToJson(applyJsonPatch(jsonToAutomerge(earlier), operations)),
+      automergeToJson(binary),
+    );
+  });
+
+  await t.step("starts from the empty document and can go backwards", () => {
+    const fromEmpty = diffAsJsonPatch(binary, []);
+    const backwards = diffAsJsonPatch(binary, A.getHeads(doc), before);
+
+    assertEquals(
+      automergeToJson(applyJsonPatch(jsonToAutomerge({}), fromEmpty)),
+      automergeToJson(binary),
+    );
+    assertEquals(
+      automergeToJson(
+        applyJsonPatch(jsonToAutomerge(automergeToJson(binary)), backwards),
+      ),
+      automergeToJson(binary, { heads: before }),
+    );
+    assertEquals(diffAsJsonPatch(binary, before, before), []);
+  });
+
+  await t.step("rejects unknown heads", () => {
+    assertThrows(
+      () => diffAsJsonPatch(binary, ["0".repeat(64)]),
+      Error,
+      "Unknown heads",
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for JSONC and JSON5 input
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { automergeToJson, jsonToAutomerge } from "@jsonAutomergeConverter";
+import {
+  InvalidJsonError,
+  InvalidOptionError,
+  JsonSyntaxError,
+} from "../src/errors.ts";
+import {
+  attachComments,
+  detachComments,
+  parseJsonText,
+  stringifyJsonc,
+} from "../src/jsonc.ts";
+
+// Formatted the way stringifyJsonc writes it, with keys in the sorted order
+// Automerge returns them in, so it round trips exactly
+const CONFIG = `// Service settings
+{
+  "limits": {},
+  // Shown in the dashboard
+  "name": "api", // must be unique
+  "ports": [
+    80, /* http */
+    443
+    // more to come
+  ]
+}
+// end of file`;
+
+Deno.test("JSONC and JSON5 input", async (t) => {
+  await t.step("reads comments and trailing commas", () => {
+    const { value, comments } = parseJsonText(
+      '{\n  "a": [1, 2,], // note\n  /* b */ "b": true,\n}',
+      "jsonc",
+    );
+
+    assertEquals(value, { a: [1, 2], b: true });
+    assertEquals(comments, {
+      "/a": { after: ["// note"] },
+      "/b": { before: ["/* b */"] },
+    });
+  });
+
+  await t.step("reads JSON5 syntax", () => {
+    const { value } = parseJsonText(
+      `{unquoted: 'it\\'s', hex: 0x1F, neg: -0xA, half: .5, five: 5., plus: +1,
+        inf: -Infinity, id: 12345678901234567890, wrapped: 'a\\\nb'}`,
+      "json5",
+    );
+
+    assertEquals(value, {
+      unquoted: "it's",
+      hex: 31,
+      neg: -10,
+      half: 0.5,
+      five: 5,
+      plus: 1,
+      inf: -Infinity,
+      id: 12345678901234567890n,
+      wrapped: "ab",
+    });
+  });
+
+  await t.step("reports syntax errors with line and column", () => {
+    const error = assertThrows(
+      () => parseJsonText('{\n  "a": 1\n  "b": 2\n}', "jsonc"),
+      JsonSyntaxError,
+      'Unexpected character "\\"" (expected "," or "}") at line 3, column 3',
+    );
+    assertEquals([error.line, error.column], [3, 3]);
+    assertEquals(error.code, "INVALID_JSON");
+
+    assertThrows(
+      () => parseJsonText('{"a": 1,}'),
+      JsonSyntaxError,
+      "Trailing commas are not allowed in JSON at line 1, column 9",
+    );
+    assertThrows(
+      () => parseJsonText("{unquoted: 1}", "jsonc"),
+      JsonSyntaxError,
+      "(expected a property name) at line 1, column 2",
+    );
+    assertThrows(
+      () => parseJsonText("[1, /* open", "json5"),
+      JsonSyntaxError,
+      "Unterminated comment at line 1, column 5",
+    );
+    assertThrows(
+      () => parseJsonText("{}", "yaml" as "json"),
+      InvalidOptionError,
+    );
+  });
+
+  await t.step("detects the syntax in auto mode", () => {
+    assertEquals(parseJsonText('{"a": 1}', "auto").value, { a: 1 });
+    assertEquals(parseJsonText("{a: 1, // one\n}", "auto"), {
+      value: { a: 1 },
+      comments: { "/a": { after: ["// one"] } },
+    });
+  });
+
+  await t.step("puts kept comments back in the same places", () => {
+    const { value, comments } = parseJsonText(CONFIG, "jsonc");
+    const binary = jsonToAutomerge(attachComments(value, comments));
+    const restored = detachComments(automergeToJson(binary));
+
+    assertEquals(restored.value, value);
+    assertEquals(stringifyJsonc(restored.value, restored.comments), CONFIG);
+  });
+
+  await t.step("keeps comments only on objects", () => {
+    const comments = { "": { before: ["// list"] } };
+
+    assertEquals(attachComments([1], {}), [1]);
+    assertThrows(
+      () => attachComments([1], comments),
+      InvalidJsonError,
+      "the root is an object",
+    );
+    assertThrows(
+      () => attachComments({ $comments: 1 }, comments),
+      InvalidJsonError,
+      'already has a "$comments" field',
+    );
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for merging copies of the same Automerge document
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { mergeAutomerge } from "../src/merge.ts";
+import { TEST_FIXTURES, VALID_ACTOR_ID } from "@testFixtures";
+
+const OTHER_ACTOR =
+  "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210";
+
+Deno.test("Merging documents", async (t) => {
+  const base = jsonToAutomerge(TEST_FIXTURES.simple);
+  const ours = updateAutomergeFromJson(
+    base,
+    { ...TEST_FIXTURES.simple, number: 43 },
+    { actor: VALID_ACTOR_ID },
+  );
+  const theirs = updateAutomergeFromJson(
+    base,
+    { ...TEST_FIXTURES.simple, boolean: false },
+    { actor: OTHER_ACTOR },
+  );
+
+  await t.step("combines edits from every copy", () => {
+    const { binary } = mergeAutomerge([ours, theirs]);
+
+    assertEquals(automergeToJson(binary), {
+      ...TEST_FIXTURES.simple,
+      number: 43,
+      boolean: false,
+    });
+  });
+
+  await t.step("summarizes the changes per actor and input", () => {
+    const { changesByActor, newChangesPerInput } = mergeAutomerge([
+      base,
+      ours,
+      theirs,
+    ]);
+
+    assertEquals(changesByActor[VALID_ACTOR_ID], 1);
+    assertEquals(changesByActor[OTHER_ACTOR], 1);
+    assertEquals(Object.keys(changesByActor).length, 3);
+    assertEquals(newChangesPerInput, [1, 1, 1]);
+  });
+
+  await t.step("returns a single input unchanged", () => {
+    const { binary } = mergeAutomerge([ours]);
+
+    assertEquals(automergeToJson(binary), automergeToJson(ours));
+  });
+
+  await t.step("refuses documents without shared history", () => {
+    const unrelated = jsonToAutomerge(TEST_FIXTURES.simple);
+
+    assertThrows(
+      () => mergeAutomerge([ours, unrelated]),
+      Error,
+      "Cannot merge input 2: it shares no history",
+    );
+  });
+
+  await t.step("rejects empty input lists and binaries", () => {
+    assertThrows(() => mergeAutomerge([]), Error, "Nothing to merge");
+    assertThrows(
+      () => mergeAutomerge([ours, new Uint8Array()]),
+      Error,
+      "Cannot merge input 2: empty binary data",
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for reading and writing automerge-repo storage directories
+ */
+
+import { assertEquals, assertMatch, assertRejects } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson } from "@jsonAutomergeConverter";
+import {
+  exportToRepoStorage,
+  importFromRepoStorage,
+} from "../src/repoStorage.ts";
+import { TEST_FIXTURES } from "@testFixtures";
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isDirectory) {
+      files.push(
+        ...(await listFiles(`${dir}/${entry.name}`)).map((file) =>
+          `${entry.name}/${file}`
+        ),
+      );
+    } else {
+      files.push(entry.name);
+    }
+  }
+  return files.sort();
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    data as Uint8Array<ArrayBuffer>,
+  );
+  return Array.from(
+    new Uint8Array(digest),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+Deno.test("Repo storage directories", async (t) => {
+  const dir = await Deno.makeTempDir();
+
+  try {
+    const { documentId, url } = await exportToRepoStorage(
+      TEST_FIXTURES.simple,
+      dir,
+    );
+    const docDir = `${dir}/${documentId.slice(0, 2)}/${documentId.slice(2)}`;
+
+    await t.step("writes a snapshot keyed by the heads hash", async () => {
+      assertEquals(url, `automerge:${documentId}`);
+      const [snapshot] = await listFiles(docDir);
+      assertMatch(snapshot, /^snapshot\/[0-9a-f]{64}$/);
+
+      const binary = await Deno.readFile(`${docDir}/${snapshot}`);
+      const heads = A.getHeads(A.load(binary));
+      assertEquals(
+        snapshot,
+        `snapshot/${await sha256Hex(
+          new TextEncoder().encode(heads.join("")),
+        )}`,
+      );
+    });
+
+    await t.step("adds incremental chunks to existing documents", async () => {
+      const updated = { ...TEST_FIXTURES.simple, number: 43 };
+      const { file } = await exportToRepoStorage(updated, dir, { documentId });
+
+      const chunk = await Deno.readFile(file!);
+      assertEquals(file, `${docDir}/incremental/${await sha256Hex(chunk)}`);
+      assertEquals(
+        automergeToJson(await importFromRepoStorage(dir, documentId)),
+        updated,
+      );
+    });
+
+    await t.step("writes nothing when the JSON is unchanged", async () => {
+      const before = await listFiles(docDir);
+      const { file } = await exportToRepoStorage(
+        { ...TEST_FIXTURES.simple, number: 43 },
+        dir,
+        { documentId: url },
+      );
+
+      assertEquals(file, undefined);
+      assertEquals(await listFiles(docDir), before);
+    });
+
+    await t.step("loads incremental chunks in any order", async () => {
+      for (const number of [44, 45, 46]) {
+        await exportToRepoStorage({ ...TEST_FIXTURES.simple, number }, dir, {
+          documentId,
+        });
+      }
+
+      assertEquals(
+        automergeToJson(await importFromRepoStorage(dir, url)),
+        { ...TEST_FIXTURES.simple, number: 46 },
+      );
+    });
+
+    await t.step("rejects unknown and invalid documents", async () => {
+      const other = await exportToRepoStorage({}, `${dir}/other`);
+
+      await assertRejects(
+        () => importFromRepoStorage(dir, other.documentId),
+        Error,
+        "was not found",
+      );
+      await assertRejects(
+        () => importFromRepoStorage(dir, "not-a-document-id"),
+        Error,
+        "Invalid document ID",
+      );
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
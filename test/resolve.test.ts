@@ -0,0 +1,116 @@
+/**
+ * Tests for resolving concurrent edits
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson } from "@jsonAutomergeConverter";
+import { findConflicts } from "../src/conflicts.ts";
+import { InvalidOptionError } from "../src/errors.ts";
+import { getHistory } from "../src/history.ts";
+import { resolveConflict } from "../src/resolve.ts";
+
+/** A document where "aaaa" and "bbbb" edited the same fields concurrently */
+function conflicted(): Uint8Array {
+  let ours = A.from<Record<string, unknown>>({
+    theme: "light",
+    visits: new A.Counter(0),
+    tags: ["a"],
+  }, "aaaa");
+  let theirs = A.clone(ours, "bbbb");
+  ours = A.change(ours, (d) => {
+    d.theme = "dark";
+    d.visits = new A.Counter(5);
+    (d.tags as string[])[0] = "x";
+  });
+  theirs = A.change(theirs, (d) => {
+    d.theme = "blue";
+    d.visits = new A.Counter(7);
+    (d.tags as string[])[0] = "y";
+  });
+  return A.save(A.merge(ours, theirs));
+}
+
+Deno.test("Resolving conflicts", async (t) => {
+  await t.step("keeps the value of the picked actor", () => {
+    const { binary, actor, value } = resolveConflict(
+      conflicted(),
+      "/theme",
+      "aaaa",
+      { actor: "cccc" },
+    );
+
+    assertEquals([actor, value], ["aaaa", "dark"]);
+    const doc = A.load<Record<string, unknown>>(binary);
+    assertEquals(doc.theme, "dark");
+    assertEquals(
+      findConflicts(doc).map(({ path }) => path),
+      ["/tags/0", "/visits"],
+    );
+  });
+
+  await t.step("records the resolution as a described change", () => {
+    const { binary } = resolveConflict(conflicted(), "/tags/0", '"y"');
+    const history = getHistory(binary);
+
+    assertEquals(
+      history.at(-1)?.message,
+      "Resolve conflict at /tags/0: keep the value of bbbb",
+    );
+    assertEquals((automergeToJson(binary) as { tags: string[] }).tags, ["y"]);
+
+    const custom = resolveConflict(conflicted(), "/tags/0", "x", {
+      message: "Keep x",
+    });
+    assertEquals(getHistory(custom.binary).at(-1)?.message, "Keep x");
+  });
+
+  await t.step("syncs the choice to other copies", () => {
+    const original = A.load<Record<string, unknown>>(conflicted());
+    const { binary } = resolveConflict(A.save(original), "/theme", "blue");
+    const synced = A.merge(A.clone(original), A.load(binary));
+
+    assertEquals(synced.theme, "blue");
+    assertEquals(A.getConflicts(synced, "theme"), undefined);
+  });
+
+  await t.step("keeps the Automerge type of the value", () => {
+    const { binary } = resolveConflict(conflicted(), "/visits", "5");
+    const doc = A.load<{ visits: A.Counter }>(binary);
+
+    assertEquals(A.isCounter(doc.visits), true);
+    assertEquals(doc.visits.value, 5);
+  });
+
+  await t.step("keeps maps that look like extended JSON", () => {
+    let ours = A.from<Record<string, unknown>>({}, "aaaa");
+    let theirs = A.clone(ours, "bbbb");
+    ours = A.change(ours, (d) => {
+      d.blob = { $bytes: "AQID" };
+    });
+    theirs = A.change(theirs, (d) => {
+      d.blob = "none";
+    });
+    const { binary, value } = resolveConflict(
+      A.save(A.merge(ours, theirs)),
+      "/blob",
+      "aaaa",
+    );
+
+    assertEquals(value, { $bytes: "AQID" });
+    assertEquals(automergeToJson(binary), { blob: { $bytes: "AQID" } });
+  });
+
+  await t.step("rejects paths without conflicts and unknown picks", () => {
+    assertThrows(
+      () => resolveConflict(conflicted(), "/missing", "aaaa"),
+      InvalidOptionError,
+      "No conflict at /missing",
+    );
+    assertThrows(
+      () => resolveConflict(conflicted(), "/theme", "green"),
+      InvalidOptionError,
+      'No value at /theme matches "green"',
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for JSON Schema validation
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson, jsonToAutomerge } from "@jsonAutomergeConverter";
+import { InvalidOptionError } from "../src/errors.ts";
+import { applyJsonPatch } from "../src/jsonPatch.ts";
+import { type JsonSchema, validateAgainstSchema } from "../src/schema.ts";
+
+const userSchema: JsonSchema = {
+  type: "object",
+  required: ["users"],
+  additionalProperties: false,
+  properties: {
+    users: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "email"],
+        properties: {
+          name: { type: "string", minLength: 1 },
+          email: { type: "string", pattern: "^[^@]+@[^@]+$" },
+          age: { type: "integer", minimum: 0 },
+          role: { enum: ["admin", "member"] },
+        },
+      },
+    },
+  },
+};
+
+Deno.test("JSON Schema", async (t) => {
+  await t.step("accepts matching values", () => {
+    assertEquals(
+      validateAgainstSchema({
+        users: [{ name: "Sam", email: "sam@example.com", age: 30 }],
+      }, userSchema),
+      [],
+    );
+  });
+
+  await t.step("reports every violation with its JSON Pointer", () => {
+    assertEquals(
+      validateAgainstSchema({
+        users: [
+          { name: "", email: 42, age: 1.5 },
+          { email: "kim@example.com", role: "owner" },
+        ],
+        extra: true,
+      }, userSchema),
+      [
+        {
+          path: "/users/0/name",
+          keyword: "minLength",
+          message: "must have at least 1 characters",
+        },
+        {
+          path: "/users/0/email",
+          keyword: "type",
+          message: "must be string, found number",
+        },
+        {
+          path: "/users/0/age",
+          keyword: "type",
+          message: "must be integer, found number",
+        },
+        { path: "/users/1/name", keyword: "required", message: "is required" },
+        {
+          path: "/users/1/role",
+          keyword: "enum",
+          message: 'must be one of "admin", "member"',
+        },
+        {
+          path: "/extra",
+          keyword: "additionalProperties",
+          message: "is not allowed",
+        },
+      ],
+    );
+  });
+
+  await t.step("supports tuples, uniqueness and numeric bounds", () => {
+    const schema: JsonSchema = {
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+      uniqueItems: true,
+    };
+
+    assertEquals(validateAgainstSchema(["a", 1], schema), []);
+    assertEquals(
+      validateAgainstSchema(["a", "a", 3], schema).map(({ path, keyword }) =>
+        `${path} ${keyword}`
+      ),
+      [" uniqueItems", "/1 type", "/2 false"],
+    );
+    assertEquals(
+      validateAgainstSchema(7, { exclusiveMaximum: 7, multipleOf: 2 }).length,
+      2,
+    );
+  });
+
+  await t.step("allows for rounding in decimal multipleOf", () => {
+    assertEquals(validateAgainstSchema(0.3, { multipleOf: 0.1 }), []);
+    assertEquals(validateAgainstSchema(0.7, { multipleOf: 0.1 }), []);
+    assertEquals(
+      validateAgainstSchema(0.35, { multipleOf: 0.1 }).map(({ keyword }) =>
+        keyword
+      ),
+      ["multipleOf"],
+    );
+  });
+
+  await t.step("rejects invalid patterns as an option error", () => {
+    assertThrows(
+      () => validateAgainstSchema("a", { pattern: "(" }),
+      InvalidOptionError,
+      "Invalid schema: pattern ( is not a valid regular expression",
+    );
+  });
+
+  await t.step("checks Automerge values in their JSON form", () => {
+    const doc = A.from({
+      visits: new A.Counter(3),
+      at: new Date("2025-01-01T00:00:00Z"),
+      size: new A.Uint(5),
+    });
+
+    assertEquals(
+      validateAgainstSchema(doc, {
+        properties: {
+          visits: { type: "integer" },
+          at: { type: "string" },
+          size: { type: "integer" },
+        },
+      }),
+      [],
+    );
+  });
+
+  await t.step("rejects JSON before writing a document", () => {
+    assertThrows(
+      () =>
+        jsonToAutomerge({ users: [{ name: "Sam" }] }, { schema: userSchema }),
+      Error,
+      "JSON does not match the schema:\n  /users/0/email: is required",
+    );
+    assertThrows(
+      () => jsonToAutomerge([], { schema: userSchema }),
+      Error,
+      "(root): must be object, found array",
+    );
+  });
+
+  await t.step("checks documents after reading and patching", () => {
+    const binary = jsonToAutomerge({
+      users: [{ name: "Sam", email: "sam@example.com" }],
+    });
+
+    assertEquals(
+      automergeToJson(binary, { schema: userSchema, extended: true }),
+      { users: [{ name: "Sam", email: "sam@example.com" }] },
+    );
+    assertThrows(
+      () =>
+        automergeToJson(binary, {
+          schema: { properties: { users: { maxItems: 0 } } },
+        }),
+      Error,
+      "Document does not match the schema:\n  /users: must have at most 0 items",
+    );
+    assertThrows(
+      () =>
+        applyJsonPatch(
+          binary,
+          [{ op: "remove", path: "/users/0/email" }],
+          { schema: userSchema },
+        ),
+      Error,
+      "/users/0/email: is required",
+    );
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for the HTTP service
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson, jsonToAutomerge } from "@jsonAutomergeConverter";
+import { createDocumentHandler, serveDocuments } from "../src/serve.ts";
+import { TEST_FIXTURES } from "@testFixtures";
+
+const BINARY_TYPE = "application/octet-stream";
+
+Deno.test("HTTP service", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  const handle = createDocumentHandler(tempDir, { arrayIdField: "id" });
+  const request = (method: string, path: string, init: RequestInit = {}) =>
+    handle(new Request(`http://localhost${path}`, { method, ...init }));
+  const json = (value: unknown) => JSON.stringify(value);
+
+  try {
+    await t.step("converts JSON to a binary and back", async () => {
+      const toBinary = await request("POST", "/json2bin", {
+        body: json(TEST_FIXTURES.simple),
+      });
+      assertEquals(toBinary.headers.get("content-type"), BINARY_TYPE);
+      const binary = new Uint8Array(await toBinary.arrayBuffer());
+      assertEquals(automergeToJson(binary), TEST_FIXTURES.simple);
+
+      const toJson = await request("POST", "/bin2json", { body: binary });
+      assert(
+        toJson.headers.get("content-type")?.startsWith("application/json"),
+      );
+      assertEquals(await toJson.json(), TEST_FIXTURES.simple);
+    });
+
+    await t.step("stores documents and updates them", async () => {
+      const created = await request("PUT", "/documents/notes", {
+        body: json({ items: [{ id: 1, done: false }] }),
+      });
+      assertEquals(created.status, 201);
+      const { heads } = await created.json();
+
+      const updated = await request("PUT", "/documents/notes?message=Done", {
+        body: json({ items: [{ id: 1, done: true }] }),
+      });
+      assertEquals((await updated.json()).changed, true);
+
+      const current = await request("GET", "/documents/notes");
+      assertEquals(await current.json(), { items: [{ id: 1, done: true }] });
+      const earlier = await request("GET", `/documents/notes?heads=${heads}`);
+      assertEquals(await earlier.json(), { items: [{ id: 1, done: false }] });
+
+      const listed = await request("GET", "/documents");
+      assertEquals(await listed.json(), { documents: ["notes"] });
+    });
+
+    await t.step("creates documents with new IDs", async () => {
+      const created = await request("POST", "/documents", {
+        body: json({ title: "New" }),
+      });
+      const { documentId } = await created.json();
+
+      assertEquals(created.status, 201);
+      assertEquals(created.headers.get("location"), `/documents/${documentId}`);
+      assertEquals(
+        await (await request("GET", `/documents/${documentId}`)).json(),
+        { title: "New" },
+      );
+    });
+
+    await t.step("applies JSON Patch operations and changes", async () => {
+      const patched = await request("POST", "/documents/notes/patch", {
+        body: json([{ op: "add", path: "/items/-", value: { id: 2 } }]),
+      });
+      assertEquals(patched.status, 200);
+
+      const response = await request("GET", "/documents/notes", {
+        headers: { accept: BINARY_TYPE },
+      });
+      assertEquals(response.headers.get("content-type"), BINARY_TYPE);
+      const doc = A.load<{ title?: string }>(
+        new Uint8Array(await response.arrayBuffer()),
+      );
+      assertEquals(
+        response.headers.get("automerge-heads"),
+        A.getHeads(doc).join(","),
+      );
+
+      const edited = A.change(doc, (d) => {
+        d.title = "Todo";
+      });
+      const applied = await request("POST", "/documents/notes/changes", {
+        body: A.saveSince(edited, A.getHeads(doc)) as Uint8Array<ArrayBuffer>,
+      });
+      assertEquals((await applied.json()).heads, A.getHeads(edited));
+      assertEquals(
+        await (await request("GET", "/documents/notes")).json(),
+        { items: [{ id: 1, done: true }, { id: 2 }], title: "Todo" },
+      );
+    });
+
+    await t.step("reports errors as JSON with a status", async () => {
+      const cases: [Response, number, string][] = [
+        [
+          await request("POST", "/json2bin", { body: "{" }),
+          400,
+          "INVALID_JSON",
+        ],
+        [
+          await request("POST", "/bin2json", { body: new Uint8Array([1]) }),
+          400,
+          "INVALID_BINARY",
+        ],
+        [await request("GET", "/documents/missing"), 404, "FILE_ACCESS"],
+        [await request("GET", "/documents/..%2Fx"), 400, "INVALID_OPTION"],
+        [
+          await request("POST", "/documents/notes/patch", {
+            body: json([{ op: "test", path: "/title", value: "Other" }]),
+          }),
+          409,
+          "JSON_PATCH_FAILED",
+        ],
+        [await request("DELETE", "/documents/notes"), 404, "INVALID_OPTION"],
+        [await request("GET", "/documents/%E0%A4%A"), 400, "INVALID_OPTION"],
+      ];
+
+      for (const [response, status, code] of cases) {
+        assertEquals(response.status, status);
+        const { error } = await response.json();
+        assertEquals(error.code, code);
+        assert(error.message);
+      }
+    });
+
+    await t.step("refuses writes from other origins", async () => {
+      const foreign = await request("PUT", "/documents/notes", {
+        headers: { origin: "https://example.com" },
+        body: json({ items: [] }),
+      });
+      assertEquals(foreign.status, 403);
+      assertEquals((await foreign.json()).error.code, "INVALID_OPTION");
+
+      const read = await request("GET", "/documents/notes", {
+        headers: { origin: "https://example.com" },
+      });
+      assertEquals(read.status, 200);
+      await read.body?.cancel();
+      const sameOrigin = await request("POST", "/json2bin", {
+        headers: { origin: "http://localhost" },
+        body: json({ a: 1 }),
+      });
+      assertEquals(sameOrigin.status, 200);
+      await sameOrigin.body?.cancel();
+
+      const allowing = createDocumentHandler(tempDir, {
+        origins: ["https://example.com"],
+      });
+      const allowed = await allowing(
+        new Request("http://localhost/json2bin", {
+          method: "POST",
+          headers: { origin: "https://example.com" },
+          body: json({ a: 1 }),
+        }),
+      );
+      assertEquals(allowed.status, 200);
+      await allowed.body?.cancel();
+    });
+
+    await t.step("answers only the configured host names", async () => {
+      const local = createDocumentHandler(tempDir, {
+        hostnames: ["localhost"],
+      });
+      const rebound = await local(
+        new Request("http://attacker.example/documents"),
+      );
+      assertEquals(rebound.status, 403);
+      await rebound.body?.cancel();
+      const direct = await local(new Request("http://localhost/documents"));
+      assertEquals(direct.status, 200);
+      await direct.body?.cancel();
+    });
+
+    await t.step("refuses bodies over the size limit", async () => {
+      const limited = createDocumentHandler(tempDir, { maxBodySize: 16 });
+      const body = json({ text: "more than sixteen bytes" });
+
+      for (const init of [{ body }, { body: ReadableStream.from([body]) }]) {
+        const response = await limited(
+          new Request("http://localhost/json2bin", { method: "POST", ...init }),
+        );
+        assertEquals(response.status, 413);
+        assertEquals((await response.json()).error.code, "INVALID_OPTION");
+      }
+    });
+
+    await t.step("applies concurrent writes one at a time", async () => {
+      const before = await (await request("GET", "/documents/notes")).json();
+      const writes = Array.from(
+        { length: 5 },
+        (_, index) =>
+          request("POST", "/documents/notes/patch", {
+            body: json([{ op: "add", path: "/items/-", value: { id: index } }]),
+          }),
+      );
+      await Promise.all(writes);
+
+      const { items } = await (await request("GET", "/documents/notes"))
+        .json();
+      assertEquals(items.length, before.items.length + 5);
+    });
+
+    await t.step("serves stored binaries unchanged", async () => {
+      const binary = jsonToAutomerge({ a: 1 });
+      await Deno.writeFile(`${tempDir}/existing.automerge`, binary);
+      const response = await request("GET", "/documents/existing", {
+        headers: { accept: BINARY_TYPE },
+      });
+
+      assertEquals(new Uint8Array(await response.arrayBuffer()), binary);
+    });
+
+    await t.step("reads documents with 64-bit integer types", async () => {
+      await Deno.writeFile(
+        `${tempDir}/sizes.automerge`,
+        jsonToAutomerge({ size: { $uint: 4 }, zero: { $f64: "-0" } }, {
+          extended: true,
+        }),
+      );
+      const response = await request("GET", "/documents/sizes");
+
+      assertEquals(response.status, 200);
+      assertEquals(await response.text(), '{"size":4,"zero":-0}');
+    });
+
+    await t.step("binds to localhost by default", async () => {
+      const controller = new AbortController();
+      const listening = Promise.withResolvers<Deno.NetAddr>();
+      const server = serveDocuments(tempDir, {
+        port: 0,
+        signal: controller.signal,
+        onListen: listening.resolve,
+      });
+      const { hostname, port } = await listening.promise;
+      assertEquals(hostname, "127.0.0.1");
+
+      const response = await fetch(`http://127.0.0.1:${port}/json2bin`, {
+        method: "POST",
+        body: json({ a: 1 }),
+      });
+      assertEquals(
+        automergeToJson(new Uint8Array(await response.arrayBuffer())),
+        { a: 1 },
+      );
+      controller.abort();
+      await server.finished;
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
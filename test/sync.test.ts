@@ -0,0 +1,158 @@
+/**
+ * Tests for offline sync between copies of a document
+ */
+
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { createSyncOffer, receiveSyncMessage } from "../src/sync.ts";
+import { TEST_FIXTURES, VALID_ACTOR_ID } from "@testFixtures";
+
+const OTHER_ACTOR =
+  "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210";
+
+interface Peer {
+  path: string;
+  statePath: string;
+}
+
+async function readState(peer: Peer): Promise<Uint8Array | undefined> {
+  try {
+    return await Deno.readFile(peer.statePath);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run offer, answer and follow-ups between two document files, keeping the
+ * sync state of each side in a sidecar file
+ * @returns The sizes of the messages that were exchanged
+ */
+async function syncFiles(a: Peer, b: Peer): Promise<number[]> {
+  const offer = createSyncOffer(
+    await Deno.readFile(a.path),
+    await readState(a),
+  );
+  await Deno.writeFile(a.statePath, offer.syncState);
+
+  const sizes: number[] = [];
+  let message = offer.message;
+  let [receiver, sender] = [b, a];
+  while (message) {
+    sizes.push(message.length);
+    assert(sizes.length < 10, "sync did not converge");
+
+    const { binary, syncState, reply } = receiveSyncMessage(
+      await Deno.readFile(receiver.path),
+      message,
+      await readState(receiver),
+    );
+    await Deno.writeFile(receiver.path, binary);
+    await Deno.writeFile(receiver.statePath, syncState);
+
+    message = reply;
+    [receiver, sender] = [sender, receiver];
+  }
+  return sizes;
+}
+
+Deno.test("Offline sync", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  const a = { path: `${tempDir}/a.automerge`, statePath: `${tempDir}/a.sync` };
+  const b = { path: `${tempDir}/b.automerge`, statePath: `${tempDir}/b.sync` };
+  const heads = async (peer: Peer) =>
+    A.getHeads(A.load(await Deno.readFile(peer.path)));
+
+  try {
+    const base = jsonToAutomerge(TEST_FIXTURES.simple);
+    await Deno.writeFile(
+      a.path,
+      updateAutomergeFromJson(
+        base,
+        { ...TEST_FIXTURES.simple, number: 43 },
+        { actor: VALID_ACTOR_ID },
+      ),
+    );
+    await Deno.writeFile(
+      b.path,
+      updateAutomergeFromJson(
+        base,
+        { ...TEST_FIXTURES.simple, boolean: false },
+        { actor: OTHER_ACTOR },
+      ),
+    );
+
+    await t.step("brings both files to the same heads", async () => {
+      await syncFiles(a, b);
+
+      assertEquals(await heads(a), await heads(b));
+      const expected = { ...TEST_FIXTURES.simple, number: 43, boolean: false };
+      assertEquals(automergeToJson(await Deno.readFile(a.path)), expected);
+      assertEquals(automergeToJson(await Deno.readFile(b.path)), expected);
+    });
+
+    await t.step("needs a single answer when already in sync", async () => {
+      const sizes = await syncFiles(a, b);
+
+      assertEquals(sizes.length, 1);
+    });
+
+    await t.step("only sends the changes made since", async () => {
+      const first = await Deno.readFile(a.path);
+      await Deno.writeFile(
+        a.path,
+        updateAutomergeFromJson(first, {
+          ...TEST_FIXTURES.simple,
+          number: 44,
+          boolean: false,
+        }),
+      );
+
+      const sizes = await syncFiles(b, a);
+
+      assertEquals(await heads(a), await heads(b));
+      assertEquals(automergeToJson(await Deno.readFile(b.path)), {
+        ...TEST_FIXTURES.simple,
+        number: 44,
+        boolean: false,
+      });
+      assert(Math.max(...sizes) < first.length);
+    });
+
+    await t.step("reports the changes a message added", () => {
+      const doc = A.from({ n: 1 });
+      const copy = A.change(A.clone(doc), (d) => {
+        d.n = 2;
+      });
+      const { message } = createSyncOffer(A.save(doc));
+      const answer = receiveSyncMessage(A.save(copy), message!);
+      const applied = receiveSyncMessage(A.save(doc), answer.reply!);
+
+      assertEquals(answer.newChanges, 0);
+      assertEquals(applied.newChanges, 1);
+      assertEquals(automergeToJson(applied.binary), { n: 2 });
+    });
+
+    await t.step("rejects invalid messages and sync state", () => {
+      const binary = jsonToAutomerge({ n: 1 });
+
+      assertThrows(
+        () => receiveSyncMessage(binary, new Uint8Array([1, 2, 3])),
+        Error,
+        "Invalid sync message",
+      );
+      assertThrows(
+        () => createSyncOffer(binary, new Uint8Array([1, 2, 3])),
+        Error,
+        "Invalid sync state",
+      );
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,367 @@
+/**
+ * Tests for the WebSocket sync server
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from "@std/assert";
+import {
+  type AutomergeUrl,
+  cbor,
+  type Message,
+  type PeerId,
+  Repo,
+} from "@automerge/automerge-repo";
+import { jsonToAutomerge, readAutomergeAsJson } from "@jsonAutomergeConverter";
+import { FileAccessError, InvalidJsonError } from "../src/errors.ts";
+import {
+  startSyncServer,
+  type SyncedDocument,
+  type SyncServer,
+  type SyncServerOptions,
+} from "../src/syncServer.ts";
+import {
+  WebSocketClientAdapter,
+  WebSocketServerAdapter,
+} from "../src/websocketNetwork.ts";
+
+interface Config {
+  title: string;
+  count: number;
+}
+
+/**
+ * Start a server on a free port, with a client factory and a way to stop it
+ */
+async function start(dir: string, options: SyncServerOptions = {}) {
+  const controller = new AbortController();
+  const listening = Promise.withResolvers<Deno.NetAddr>();
+  const sync: SyncServer = await startSyncServer(dir, {
+    ...options,
+    port: 0,
+    signal: controller.signal,
+    onListen: listening.resolve,
+  });
+  const { port } = await listening.promise;
+  const clients: Repo[] = [];
+
+  return {
+    ...sync,
+    client: () => {
+      const repo = new Repo({
+        network: [new WebSocketClientAdapter(`ws://127.0.0.1:${port}`)],
+      });
+      clients.push(repo);
+      return repo;
+    },
+    stop: async () => {
+      await Promise.all(clients.map((repo) => repo.shutdown()));
+      controller.abort();
+      await sync.finished;
+    },
+  };
+}
+
+/**
+ * Send a WebSocket handshake with an Origin header and return the status
+ */
+async function handshake(port: number, origin?: string): Promise<number> {
+  const connection = await Deno.connect({ hostname: "127.0.0.1", port });
+  try {
+    await connection.write(
+      new TextEncoder().encode(
+        [
+          "GET / HTTP/1.1",
+          `Host: localhost:${port}`,
+          "Upgrade: websocket",
+          "Connection: Upgrade",
+          "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+          "Sec-WebSocket-Version: 13",
+          ...(origin ? [`Origin: ${origin}`] : []),
+          "",
+          "",
+        ].join("\r\n"),
+      ),
+    );
+    const buffer = new Uint8Array(1024);
+    const read = await connection.read(buffer);
+    const status = new TextDecoder().decode(buffer.subarray(0, read ?? 0));
+    return Number(status.split(" ")[1]);
+  } finally {
+    connection.close();
+  }
+}
+
+Deno.test("Sync server", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  await Deno.writeTextFile(
+    `${tempDir}/config.json`,
+    JSON.stringify({ title: "Settings", count: 1 }),
+  );
+
+  try {
+    await t.step("syncs edits between two clients", async () => {
+      let saved = Promise.withResolvers<SyncedDocument>();
+      const server = await start(tempDir, {
+        jsonMirrors: true,
+        onSave: (document) => saved.resolve(document),
+      });
+
+      try {
+        const [config] = server.documents();
+        assertEquals(config.name, "config");
+        await Deno.stat(`${tempDir}/config.automerge`);
+
+        const url = config.url as AutomergeUrl;
+        const first = await server.client().find<Config>(url);
+        const second = await server.client().find<Config>(url);
+        assertEquals(second.doc(), { title: "Settings", count: 1 });
+
+        saved = Promise.withResolvers();
+        const received = new Promise((resolve) => second.on("change", resolve));
+        first.change((d) => {
+          d.count = 2;
+        });
+        await received;
+        assertEquals(second.doc().count, 2);
+
+        assertEquals((await saved.promise).name, "config");
+        assertEquals(await readAutomergeAsJson(`${tempDir}/config.automerge`), {
+          title: "Settings",
+          count: 2,
+        });
+        assertEquals(
+          JSON.parse(await Deno.readTextFile(`${tempDir}/config.json`)),
+          { title: "Settings", count: 2 },
+        );
+      } finally {
+        await server.stop();
+      }
+    });
+
+    await t.step("saves documents created by clients", async () => {
+      const server = await start(tempDir);
+      let path: string;
+
+      try {
+        const handle = server.client().create({ notes: ["first"] });
+        path = `${tempDir}/${handle.documentId}.automerge`;
+        // Found by the second client only through the server
+        await server.client().find(handle.url);
+      } finally {
+        await server.stop();
+      }
+      assertEquals(await readAutomergeAsJson(path), { notes: ["first"] });
+      await assertRejects(
+        () => Deno.stat(path.replace(/\.automerge$/, ".json")),
+        Deno.errors.NotFound,
+      );
+    });
+
+    await t.step("imports JSON files dropped into the directory", async () => {
+      const imported = Promise.withResolvers<SyncedDocument>();
+      const failed = Promise.withResolvers<unknown>();
+      const server = await start(tempDir, {
+        debounce: 20,
+        onImport: imported.resolve,
+        onError: failed.resolve,
+      });
+
+      try {
+        await Deno.writeTextFile(`${tempDir}/broken.json`, "{");
+        assertInstanceOf(await failed.promise, InvalidJsonError);
+
+        await Deno.writeTextFile(`${tempDir}/dropped.json`, '{"new": true}');
+        const dropped = await imported.promise;
+        assertEquals(dropped.name, "dropped");
+
+        const handle = await server.client().find(dropped.url as AutomergeUrl);
+        assertEquals(handle.doc(), { new: true });
+        assert(!server.documents().some(({ name }) => name === "broken"));
+      } finally {
+        await server.stop();
+        await Deno.remove(`${tempDir}/broken.json`);
+      }
+    });
+
+    await t.step("keeps the URL of each file across restarts", async () => {
+      const first = await start(tempDir);
+      const before = first.documents();
+      await first.stop();
+      const second = await start(tempDir);
+      const after = second.documents();
+      await second.stop();
+
+      assertEquals(after, before);
+      assertEquals(before.length, 3);
+    });
+
+    await t.step("mirrors saved documents as JSON when asked", async () => {
+      const server = await start(tempDir, { jsonMirrors: true });
+      let path: string;
+
+      try {
+        const handle = server.client().create({ notes: ["mirrored"] });
+        path = `${tempDir}/${handle.documentId}.json`;
+        await server.client().find(handle.url);
+      } finally {
+        await server.stop();
+      }
+      assertEquals(JSON.parse(await Deno.readTextFile(path)), {
+        notes: ["mirrored"],
+      });
+    });
+
+    await t.step("reports mirrors it cannot write", async () => {
+      await Deno.writeFile(
+        `${tempDir}/locked.automerge`,
+        jsonToAutomerge({ count: 1 }),
+      );
+      // A directory in the way of the mirror
+      await Deno.mkdir(`${tempDir}/locked.json`);
+      const failed = Promise.withResolvers<unknown>();
+      const saved = Promise.withResolvers<SyncedDocument>();
+      const server = await start(tempDir, {
+        jsonMirrors: true,
+        onError: failed.resolve,
+        onSave: saved.resolve,
+      });
+
+      try {
+        const locked = server.documents().find(({ name }) =>
+          name === "locked"
+        )!;
+        const handle = await server.client().find<{ count: number }>(
+          locked.url as AutomergeUrl,
+        );
+        handle.change((d) => {
+          d.count = 2;
+        });
+
+        assertInstanceOf(await failed.promise, FileAccessError);
+        assertEquals((await saved.promise).name, "locked");
+      } finally {
+        await server.stop();
+      }
+      assertEquals(
+        await readAutomergeAsJson(`${tempDir}/locked.automerge`),
+        { count: 2 },
+      );
+    });
+
+    await t.step("refuses connections from other origins", async () => {
+      const server = await start(tempDir, {
+        origins: ["http://localhost:5173"],
+      });
+      const { port } = server.server.addr as Deno.NetAddr;
+
+      try {
+        assertEquals(await handshake(port, "https://evil.example"), 403);
+        assertEquals(await handshake(port, "http://localhost:5173"), 101);
+        assertEquals(await handshake(port, `http://localhost:${port}`), 101);
+        assertEquals(await handshake(port), 101);
+      } finally {
+        await server.stop();
+      }
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+/**
+ * Serve WebSocket upgrades with a handler on a free port
+ */
+async function serveSockets(handler: (request: Request) => Response) {
+  const controller = new AbortController();
+  const listening = Promise.withResolvers<Deno.NetAddr>();
+  const server = Deno.serve(
+    { port: 0, signal: controller.signal, onListen: listening.resolve },
+    handler,
+  );
+  const { port } = await listening.promise;
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    stop: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
+
+Deno.test("WebSocket adapters", async (t) => {
+  await t.step("drop messages sent in another peer's name", async () => {
+    const adapter = new WebSocketServerAdapter();
+    adapter.connect("server" as PeerId);
+    const received: Message[] = [];
+    adapter.on("message", (message) => received.push(message));
+    const server = await serveSockets((request) => adapter.accept(request));
+
+    const socket = new WebSocket(server.url);
+    socket.binaryType = "arraybuffer";
+    const joined = Promise.withResolvers<void>();
+    socket.addEventListener("open", () =>
+      socket.send(cbor.encode({
+        type: "join",
+        senderId: "client",
+        peerMetadata: {},
+        supportedProtocolVersions: ["1"],
+      })));
+    socket.addEventListener("message", () => joined.resolve());
+    await joined.promise;
+
+    const delivered = new Promise((resolve) => adapter.on("message", resolve));
+    for (const senderId of ["other", "client"]) {
+      socket.send(cbor.encode({
+        type: "ephemeral",
+        senderId,
+        targetId: "server",
+        data: new Uint8Array(),
+      }));
+    }
+    await delivered;
+    assertEquals(received.map(({ senderId }) => senderId), ["client"]);
+
+    const closed = new Promise((resolve) =>
+      socket.addEventListener("close", resolve)
+    );
+    socket.close();
+    await closed;
+    adapter.disconnect();
+    await server.stop();
+  });
+
+  await t.step("close the connection on frames they cannot read", async () => {
+    const closed = Promise.withResolvers<number>();
+    const server = await serveSockets((request) => {
+      const { socket, response } = Deno.upgradeWebSocket(request);
+      socket.addEventListener("message", () => socket.send("not cbor"));
+      socket.addEventListener("close", (event) => closed.resolve(event.code));
+      return response;
+    });
+
+    const adapter = new WebSocketClientAdapter(server.url);
+    adapter.connect("client" as PeerId);
+    await adapter.whenReady();
+    assertEquals(await closed.promise, 4000);
+    adapter.disconnect();
+    await server.stop();
+  });
+
+  await t.step("close clients that send frames they cannot read", async () => {
+    const adapter = new WebSocketServerAdapter();
+    adapter.connect("server" as PeerId);
+    const server = await serveSockets((request) => adapter.accept(request));
+
+    const socket = new WebSocket(server.url);
+    const closed = Promise.withResolvers<number>();
+    socket.addEventListener("open", () => socket.send("not cbor"));
+    socket.addEventListener("close", (event) => closed.resolve(event.code));
+    assertEquals(await closed.promise, 4000);
+    adapter.disconnect();
+    await server.stop();
+  });
+});
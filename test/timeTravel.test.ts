@@ -0,0 +1,107 @@
+/**
+ * Tests for reading earlier versions of Automerge documents
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { automergeToJson, type JsonWithMeta } from "@jsonAutomergeConverter";
+import { VALID_ACTOR_ID } from "@testFixtures";
+
+const OTHER_ACTOR = "fedcba9876543210fedcba9876543210";
+
+Deno.test("Time-travel reads", async (t) => {
+  let doc = A.init<{ status: string; count: number }>(VALID_ACTOR_ID);
+  doc = A.change(doc, { time: Date.UTC(2024, 6, 1) / 1000 }, (d) => {
+    d.status = "draft";
+    d.count = 1;
+  });
+  doc = A.change(doc, { time: Date.UTC(2025, 0, 1) / 1000 }, (d) => {
+    d.count = 2;
+  });
+  const januaryHeads = A.getHeads(doc);
+  doc = A.clone(doc, OTHER_ACTOR);
+  doc = A.change(doc, { time: Date.UTC(2025, 5, 1) / 1000 }, (d) => {
+    d.status = "published";
+  });
+  const binary = A.save(doc);
+
+  await t.step("reads the latest version by default", () => {
+    assertEquals(automergeToJson(binary), { status: "published", count: 2 });
+  });
+
+  await t.step("reads the version at given heads", () => {
+    assertEquals(automergeToJson(binary, { heads: januaryHeads }), {
+      status: "draft",
+      count: 2,
+    });
+  });
+
+  await t.step("reads the version before a timestamp", () => {
+    assertEquals(
+      automergeToJson(binary, { before: "2025-03-01T00:00:00Z" }),
+      { status: "draft", count: 2 },
+    );
+    assertEquals(automergeToJson(binary, { before: "2024-07-01T00:00:01Z" }), {
+      status: "draft",
+      count: 1,
+    });
+    assertEquals(automergeToJson(binary, { before: new Date(0) }), {});
+  });
+
+  await t.step("reads counters as they were at the given heads", () => {
+    let counted = A.from({ visits: new A.Counter(1) });
+    const firstHeads = A.getHeads(counted);
+    counted = A.change(counted, (d) => d.visits.increment(4));
+
+    assertEquals(automergeToJson(A.save(counted), { heads: firstHeads }), {
+      visits: 1,
+    });
+  });
+
+  await t.step("supports extended JSON for earlier versions", () => {
+    assertEquals(
+      automergeToJson(binary, { heads: januaryHeads, extended: true }),
+      { status: "draft", count: 2 },
+    );
+  });
+
+  await t.step("wraps the content with heads and actors", () => {
+    const latest = automergeToJson(binary, { withMeta: true }) as JsonWithMeta;
+    assertEquals(latest.heads, A.getHeads(doc));
+    assertEquals(latest.actors, [VALID_ACTOR_ID, OTHER_ACTOR].sort());
+
+    const january = automergeToJson(binary, {
+      heads: januaryHeads,
+      withMeta: true,
+    }) as JsonWithMeta;
+    assertEquals(january, {
+      heads: januaryHeads,
+      actors: [VALID_ACTOR_ID],
+      doc: { status: "draft", count: 2 },
+    });
+  });
+
+  await t.step("rejects malformed, unknown and conflicting versions", () => {
+    assertThrows(
+      () => automergeToJson(binary, { heads: ["abc"] }),
+      Error,
+      "Invalid heads: abc",
+    );
+    assertThrows(
+      () => automergeToJson(binary, { heads: ["0".repeat(64)] }),
+      Error,
+      "Unknown heads",
+    );
+    assertThrows(
+      () => automergeToJson(binary, { before: "yesterday" }),
+      Error,
+      "Invalid date",
+    );
+    assertThrows(
+      () =>
+        automergeToJson(binary, { heads: januaryHeads, before: new Date() }),
+      Error,
+      "not both",
+    );
+  });
+});
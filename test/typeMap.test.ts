@@ -0,0 +1,147 @@
+/**
+ * Tests for path-based Automerge type mapping
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { matchesPattern, parsePointer } from "../src/jsonPointer.ts";
+
+const PROFILE_DATA = {
+  users: [
+    { id: "u1", bio: "Likes tea", visits: 3 },
+    { id: "u2", bio: "Likes coffee", visits: 5 },
+  ],
+  total: 8,
+};
+
+const PROFILE_TYPES = {
+  "/users/*/id": "immutable",
+  "/users/*/bio": "text",
+  "/users/*/visits": "counter",
+  "/total": "counter",
+} as const;
+
+Deno.test("Path pattern matching", async (t) => {
+  await t.step("parses escaped JSON Pointers", () => {
+    assertEquals(parsePointer(""), []);
+    assertEquals(parsePointer("/a~1b/c~0d/0"), ["a/b", "c~d", "0"]);
+    assertThrows(() => parsePointer("a/b"), Error, "must start with");
+  });
+
+  await t.step("matches single and multi segment wildcards", () => {
+    assertEquals(
+      matchesPattern(["users", "*", "bio"], ["users", 0, "bio"]),
+      true,
+    );
+    assertEquals(
+      matchesPattern(["users", "*", "bio"], ["users", "bio"]),
+      false,
+    );
+    assertEquals(matchesPattern(["**", "id"], ["a", "b", "id"]), true);
+    assertEquals(matchesPattern(["**", "id"], ["id"]), true);
+    assertEquals(matchesPattern(["**", "id"], ["a", "name"]), false);
+  });
+});
+
+Deno.test("Type mapping during conversion", async (t) => {
+  await t.step("stores values as the mapped Automerge types", () => {
+    const binary = jsonToAutomerge(PROFILE_DATA, { typeMap: PROFILE_TYPES });
+    const doc = A.load<typeof PROFILE_DATA>(binary);
+
+    assertEquals(A.isImmutableString(doc.users[0].id), true);
+    assertEquals(typeof doc.users[0].bio, "string");
+    assertEquals(A.isCounter(doc.users[0].visits), true);
+    assertEquals(A.isCounter(doc.total), true);
+  });
+
+  await t.step("converts mapped types back to plain JSON", () => {
+    const binary = jsonToAutomerge(PROFILE_DATA, { typeMap: PROFILE_TYPES });
+
+    assertEquals(automergeToJson(binary), PROFILE_DATA);
+  });
+
+  await t.step("applies rules to every value below a ** pattern", () => {
+    const data = { id: "root", users: PROFILE_DATA.users };
+    const binary = jsonToAutomerge(data, {
+      typeMap: { "/**/id": "immutable" },
+    });
+    const doc = A.load<typeof data>(binary);
+
+    assertEquals(A.isImmutableString(doc.id), true);
+    assertEquals(A.isImmutableString(doc.users[1].id), true);
+    assertEquals(typeof doc.users[1].bio, "string");
+  });
+
+  await t.step("rejects values that don't fit the mapped type", () => {
+    assertThrows(
+      () => jsonToAutomerge({ total: "eight" }, { typeMap: PROFILE_TYPES }),
+      Error,
+      'type map rule "counter" at /total requires an integer',
+    );
+  });
+
+  await t.step("rejects unknown types", () => {
+    assertThrows(
+      () =>
+        jsonToAutomerge(PROFILE_DATA, {
+          // @ts-expect-error testing an invalid type name
+          typeMap: { "/total": "number" },
+        }),
+      Error,
+      'unknown type "number"',
+    );
+  });
+});
+
+Deno.test("Type mapping during updates", async (t) => {
+  await t.step("increments counters by the difference", () => {
+    const base = jsonToAutomerge(PROFILE_DATA, { typeMap: PROFILE_TYPES });
+    const ours = updateAutomergeFromJson(
+      base,
+      { ...PROFILE_DATA, total: 10 },
+      { typeMap: PROFILE_TYPES },
+    );
+    const theirs = updateAutomergeFromJson(
+      base,
+      { ...PROFILE_DATA, total: 9 },
+      { typeMap: PROFILE_TYPES },
+    );
+
+    const merged = A.merge(A.load(ours), A.load(theirs));
+    assertEquals(automergeToJson(A.save(merged)), {
+      ...PROFILE_DATA,
+      total: 11,
+    });
+  });
+
+  await t.step("maps newly inserted values", () => {
+    const base = jsonToAutomerge(PROFILE_DATA, { typeMap: PROFILE_TYPES });
+    const next = {
+      ...PROFILE_DATA,
+      users: [...PROFILE_DATA.users, { id: "u3", bio: "New", visits: 0 }],
+    };
+
+    const updated = updateAutomergeFromJson(base, next, {
+      typeMap: PROFILE_TYPES,
+    });
+    const doc = A.load<typeof PROFILE_DATA>(updated);
+
+    assertEquals(A.isImmutableString(doc.users[2].id), true);
+    assertEquals(A.isCounter(doc.users[2].visits), true);
+    assertEquals(automergeToJson(updated), next);
+  });
+
+  await t.step("changes the stored type when the rules change", () => {
+    const base = jsonToAutomerge(PROFILE_DATA);
+    const updated = updateAutomergeFromJson(base, PROFILE_DATA, {
+      typeMap: { "/total": "counter" },
+    });
+
+    assertEquals(A.isCounter(A.load<typeof PROFILE_DATA>(updated).total), true);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for updating existing Automerge documents from new JSON versions
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import * as A from "@automerge/automerge";
+import {
+  automergeToJson,
+  jsonToAutomerge,
+  updateAutomergeFromJson,
+} from "@jsonAutomergeConverter";
+import { TEST_FIXTURES } from "@testFixtures";
+
+function lastChangeOps(binary: Uint8Array): A.DecodedChange["ops"] {
+  const changes = A.getAllChanges(A.load(binary));
+  return A.decodeChange(changes[changes.length - 1]).ops;
+}
+
+Deno.test("Updating documents from JSON", async (t) => {
+  await t.step("produces the new JSON content", () => {
+    const base = jsonToAutomerge(TEST_FIXTURES.complex);
+    const next = {
+      ...TEST_FIXTURES.complex,
+      users: [
+        { id: 1, name: "Alice Smith", active: true },
+        { id: 3, name: "Carol", active: true },
+      ],
+      stats: { totalUsers: 2 },
+    };
+
+    const updated = updateAutomergeFromJson(base, next);
+
+    assertEquals(automergeToJson(updated), next);
+  });
+
+  await t.step("keeps the history of the base document", () => {
+    const base = jsonToAutomerge(TEST_FIXTURES.simple);
+    const baseHeads = A.getHeads(A.load(base));
+
+    const updated = updateAutomergeFromJson(base, {
+      ...TEST_FIXTURES.simple,
+      number: 43,
+    });
+    const doc = A.load(updated);
+
+    assertEquals(A.getAllChanges(doc).length, 2);
+    assertEquals(A.hasHeads(doc, baseHeads), true);
+  });
+
+  await t.step("writes only changed keys", () => {
+    const base = jsonToAutomerge(TEST_FIXTURES.simple);
+    const updated = updateAutomergeFromJson(base, {
+      ...TEST_FIXTURES.simple,
+      number: 43,
+    });
+
+    const ops = lastChangeOps(updated);
+    assertEquals(ops.length, 1);
+    assertEquals(ops[0].key, "number");
+  });
+
+  await t.step("edits text instead of replacing it", () => {
+    const base = jsonToAutomerge({ text: "hello world" });
+    const updated = updateAutomergeFromJson(base, {
+      text: "hello brave world",
+    });
+
+    const ops = lastChangeOps(updated);
+    assertEquals(ops.every((op) => op.action === "set"), true);
+    assertEquals(ops.length, "brave ".length);
+  });
+
+  await t.step("replaces counters updated with fractions", () => {
+    const base = A.save(A.from({ visits: new A.Counter(1) }));
+    const counted = A.load<{ visits: A.Counter }>(
+      updateAutomergeFromJson(base, { visits: 3 }),
+    );
+    assertEquals(A.isCounter(counted.visits), true);
+    assertEquals(counted.visits.value, 3);
+
+    const replaced = updateAutomergeFromJson(base, { visits: 1.5 });
+    assertEquals(automergeToJson(replaced), { visits: 1.5 });
+    assertEquals(
+      A.isCounter(A.load<{ visits: unknown }>(replaced).visits),
+      false,
+    );
+  });
+
+  await t.step("produces no change when nothing differs", () => {
+    const base = jsonToAutomerge(TEST_FIXTURES.complex);
+    const updated = updateAutomergeFromJson(base, TEST_FIXTURES.complex);
+
+    assertEquals(A.getAllChanges(A.load(updated)).length, 1);
+  });
+
+  await t.step("inserts and deletes array elements", () => {
+    const base = jsonToAutomerge({ items: [1, 2, 3, 4] });
+    const updated = updateAutomergeFromJson(base, { items: [0, 1, 3, 4, 5] });
+
+    assertEquals(automergeToJson(updated), { items: [0, 1, 3, 4, 5] });
+    assertEquals(lastChangeOps(updated).length, 3);
+  });
+
+  await t.step("matches reordered elements by id field", () => {
+    const users = [
+      { id: "a", name: "Alice" },
+      { id: "b", name: "Bob" },
+      { id: "c", name: "Carol" },
+    ];
+    const base = jsonToAutomerge({ users });
+    const next = { users: [users[1], users[2], { ...users[0], name: "Al" }] };
+
+    const updated = updateAutomergeFromJson(base, next, {
+      arrayIdField: "id",
+    });
+
+    assertEquals(automergeToJson(updated), next);
+    const ops = lastChangeOps(updated);
+    assertEquals(ops.filter((op) => op.action === "del").length, 1);
+    assertEquals(ops.filter((op) => op.action === "makeMap").length, 1);
+  });
+
+  await t.step("matches long reordered lists without an LCS table", () => {
+    const ids = Array.from({ length: 10_000 }, (_, index) => index);
+    const base = jsonToAutomerge({ ids });
+    // The first element moves to the end, so no common prefix or suffix
+    const next = { ids: [...ids.slice(1), ids[0]] };
+
+    const updated = updateAutomergeFromJson(base, next);
+
+    assertEquals(automergeToJson(updated), next);
+    assertEquals(lastChangeOps(updated).length, 2);
+  });
+
+  await t.step("merges with concurrent edits of the base", () => {
+    const base = jsonToAutomerge({ title: "Draft", tags: ["a"] });
+
+    const ours = updateAutomergeFromJson(base, {
+      title: "Final draft",
+      tags: ["a"],
+    });
+    const theirs = updateAutomergeFromJson(base, {
+      title: "Draft",
+      tags: ["a", "b"],
+    });
+
+    const merged = A.merge(A.load(ours), A.load(theirs));
+    assertEquals(A.toJS(merged), { title: "Final draft", tags: ["a", "b"] });
+  });
+
+  await t.step("rejects non-object roots", () => {
+    const base = jsonToAutomerge(TEST_FIXTURES.simple);
+
+    assertThrows(
+      () => updateAutomergeFromJson(base, [1, 2, 3]),
+      Error,
+      "root must be a plain object",
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for recording the edits of a JSON file as changes
+ */
+
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import * as A from "@automerge/automerge";
+import { readAutomergeAsJson } from "@jsonAutomergeConverter";
+import { InvalidJsonError } from "../src/errors.ts";
+import {
+  recordJsonFile,
+  type RecordResult,
+  watchJsonFile,
+} from "../src/watch.ts";
+import { TEST_FIXTURES, VALID_ACTOR_ID } from "@testFixtures";
+
+Deno.test("Recording JSON files", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  const jsonFile = `${tempDir}/config.json`;
+  const binaryFile = `${tempDir}/config.automerge`;
+  const first = { ...TEST_FIXTURES.simple };
+  const second = { ...TEST_FIXTURES.simple, number: 43 };
+
+  try {
+    await t.step("creates a missing Automerge file", async () => {
+      await Deno.writeTextFile(jsonFile, JSON.stringify(first));
+      const result = await recordJsonFile(jsonFile, binaryFile, {
+        actor: VALID_ACTOR_ID,
+      });
+
+      assert(result.changed);
+      assertEquals(result.size, (await Deno.stat(binaryFile)).size);
+      assertEquals(await readAutomergeAsJson(binaryFile), first);
+    });
+
+    await t.step("records edits on top of the existing history", async () => {
+      await Deno.writeTextFile(jsonFile, JSON.stringify(second));
+      const result = await recordJsonFile(jsonFile, binaryFile);
+      const doc = A.load(await Deno.readFile(binaryFile));
+
+      assert(result.changed);
+      assertEquals(result.heads, A.getHeads(doc));
+      assertEquals(A.getAllChanges(doc).length, 2);
+      assertEquals(await readAutomergeAsJson(binaryFile), second);
+    });
+
+    await t.step("leaves the file alone when nothing changed", async () => {
+      const before = await Deno.readFile(binaryFile);
+      const result = await recordJsonFile(jsonFile, binaryFile);
+
+      assertEquals(result.changed, false);
+      assertEquals(await Deno.readFile(binaryFile), before);
+    });
+
+    await t.step("rejects unparseable versions", async () => {
+      const before = await Deno.readFile(binaryFile);
+      await Deno.writeTextFile(jsonFile, '{"number": 4');
+
+      await assertRejects(
+        () => recordJsonFile(jsonFile, binaryFile),
+        InvalidJsonError,
+      );
+      assertEquals(await Deno.readFile(binaryFile), before);
+    });
+
+    await t.step("reads JSONC files", async () => {
+      await Deno.writeTextFile(jsonFile, '{\n  // bumped\n  "number": 44,\n}');
+      await recordJsonFile(jsonFile, binaryFile, {
+        inputFormat: "jsonc",
+        keepComments: true,
+      });
+
+      assertEquals(await readAutomergeAsJson(binaryFile), {
+        number: 44,
+        $comments: { "/number": { before: ["// bumped"] } },
+      });
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Watching JSON files", async (t) => {
+  const tempDir = await Deno.makeTempDir();
+  const jsonFile = `${tempDir}/config.json`;
+  const binaryFile = `${tempDir}/config.automerge`;
+  const controller = new AbortController();
+
+  // Each callback resolves the promise the test is waiting on
+  let next = Promise.withResolvers<RecordResult | unknown>();
+  const settled = async () => {
+    const value = await next.promise;
+    next = Promise.withResolvers();
+    return value;
+  };
+
+  await Deno.writeTextFile(jsonFile, JSON.stringify({ version: 1 }));
+  const watching = watchJsonFile(jsonFile, binaryFile, {
+    debounce: 20,
+    signal: controller.signal,
+    onRecord: (result) => next.resolve(result),
+    onError: (error) => next.resolve(error),
+  });
+
+  try {
+    await t.step("records the current version first", async () => {
+      assertEquals((await settled() as RecordResult).changed, true);
+      assertEquals(await readAutomergeAsJson(binaryFile), { version: 1 });
+    });
+
+    await t.step("records each saved version", async () => {
+      await Deno.writeTextFile(jsonFile, JSON.stringify({ version: 2 }));
+
+      assertEquals((await settled() as RecordResult).changed, true);
+      assertEquals(await readAutomergeAsJson(binaryFile), { version: 2 });
+    });
+
+    await t.step("skips unparseable versions and keeps going", async () => {
+      await Deno.writeTextFile(jsonFile, '{"version": ');
+      assert(await settled() instanceof InvalidJsonError);
+
+      await Deno.writeTextFile(jsonFile, JSON.stringify({ version: 3 }));
+      assertEquals((await settled() as RecordResult).changed, true);
+
+      const doc = A.load(await Deno.readFile(binaryFile));
+      assertEquals(A.getAllChanges(doc).length, 3);
+      assertEquals(await readAutomergeAsJson(binaryFile), { version: 3 });
+    });
+  } finally {
+    controller.abort();
+    await watching;
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("Stopping a watch records the pending save", async () => {
+  const tempDir = await Deno.makeTempDir();
+  const jsonFile = `${tempDir}/config.json`;
+  const binaryFile = `${tempDir}/config.automerge`;
+  const controller = new AbortController();
+
+  await Deno.writeTextFile(jsonFile, JSON.stringify({ version: 1 }));
+  let recorded = Promise.withResolvers<void>();
+  const watching = watchJsonFile(jsonFile, binaryFile, {
+    debounce: 60_000,
+    signal: controller.signal,
+    onRecord: () => recorded.resolve(),
+  });
+
+  try {
+    await recorded.promise;
+    recorded = Promise.withResolvers();
+    await Deno.writeTextFile(jsonFile, JSON.stringify({ version: 2 }));
+    // Give the watcher time to see the save, which then waits for the debounce
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    controller.abort();
+    await watching;
+
+    assertEquals(await readAutomergeAsJson(binaryFile), { version: 2 });
+  } finally {
+    controller.abort();
+    await watching;
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});